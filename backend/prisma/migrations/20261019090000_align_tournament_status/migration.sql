@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TournamentStatus" RENAME VALUE 'IN_PROGRESS' TO 'LIVE';
+
+-- AlterEnum
+ALTER TYPE "TournamentStatus" ADD VALUE 'CHECK_IN' BEFORE 'LIVE';
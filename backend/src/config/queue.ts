@@ -0,0 +1,7 @@
+import Bull from 'bull';
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+export const createQueue = (name: string) => new Bull(name, redisUrl);
+
+export default createQueue;
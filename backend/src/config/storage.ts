@@ -0,0 +1,16 @@
+import { StorageDriver, LocalStorageDriver } from '../services/StorageService';
+
+const storageDriver = process.env.STORAGE_DRIVER || 'local';
+const uploadPath = process.env.UPLOAD_PATH || './uploads';
+
+// Other drivers plug in here behind the same interface
+export const createStorageDriver = (): StorageDriver => {
+  switch (storageDriver) {
+    case 'local':
+      return new LocalStorageDriver(uploadPath);
+    default:
+      throw new Error(`Unknown storage driver: ${storageDriver}`);
+  }
+};
+
+export default createStorageDriver;
@@ -4,13 +4,14 @@ import { PrismaClient } from '@prisma/client';
 import { validateRequest, CommonSchemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest, adminMiddleware } from '../middleware/auth';
+import { LadderService } from '../services/LadderService';
 
 const router = Router();
 
 // Apply admin middleware to all routes
 router.use(adminMiddleware);
 
-export default function adminRoutes(prisma: PrismaClient) {
+export default function adminRoutes(prisma: PrismaClient, ladderService: LadderService) {
   // Dashboard analytics
   router.get('/dashboard',
     asyncHandler(async (req: any, res: any) => {
@@ -407,6 +408,56 @@ export default function adminRoutes(prisma: PrismaClient) {
     })
   );
 
+  // Ranked ladder seasons
+  router.post('/seasons',
+    validateRequest({
+      body: z.object({
+        name: z.string().min(3).max(100),
+        gameMode: z.enum(['ULTIMATE_TEAM', 'KICK_OFF', 'CAREER_MODE', 'VOLTA_FOOTBALL', 'PRO_CLUBS']),
+        startsAt: z.string().datetime(),
+        endsAt: z.string().datetime(),
+        carryOver: z.number().min(0).max(1).optional(),
+        decayDays: z.number().int().min(1).max(90).optional(),
+        decayPoints: z.number().int().min(0).max(100).optional()
+      })
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const season = await ladderService.createSeason(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: season
+      });
+    })
+  );
+
+  // Start a season now instead of at its scheduled time
+  router.post('/seasons/:id/start',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const season = await ladderService.startSeason(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Season started',
+        data: season
+      });
+    })
+  );
+
+  router.post('/seasons/:id/end',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const season = await ladderService.endSeason(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Season ended and archived',
+        data: season
+      });
+    })
+  );
+
   // Database maintenance
   router.post('/maintenance/cleanup',
     validateRequest({
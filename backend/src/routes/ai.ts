@@ -2,6 +2,8 @@ import { Router } from 'express';
 import multer from 'multer';
 import { z } from 'zod';
 import { AIService } from '../services/AIService';
+import { TournamentScheduleService } from '../services/TournamentScheduleService';
+import { HeadToHeadService } from '../services/HeadToHeadService';
 import { validateRequest, CommonSchemas, validateImageUpload } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest, rateLimitMiddleware } from '../middleware/auth';
@@ -52,7 +54,11 @@ const ScheduleOptimizationSchema = z.object({
   timezone: z.string().default('UTC')
 });
 
-export default function aiRoutes(aiService: AIService) {
+export default function aiRoutes(
+  aiService: AIService,
+  tournamentScheduleService: TournamentScheduleService,
+  headToHeadService: HeadToHeadService
+) {
   // Get AI service status
   router.get('/status',
     asyncHandler(async (req: any, res: any) => {
@@ -177,23 +183,12 @@ export default function aiRoutes(aiService: AIService) {
   router.post('/predict/match',
     validateRequest({ body: MatchPredictionSchema }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // TODO: Fetch player stats from database
-      const player1Stats = {
-        currentElo: 1500,
-        winRate: 0.65,
-        recentForm: 0.7
-      };
-      
-      const player2Stats = {
-        currentElo: 1400,
-        winRate: 0.55,
-        recentForm: 0.6
-      };
+      const headToHead = await headToHeadService.getHeadToHead('user', req.body.player1Id, req.body.player2Id);
 
       const prediction = await aiService.predictMatchOutcome(
-        player1Stats,
-        player2Stats,
-        req.body.includeHistoricalData ? [] : undefined
+        headToHead.competitor,
+        headToHead.opponent,
+        req.body.includeHistoricalData ? headToHead : undefined
       );
 
       res.json({
@@ -211,25 +206,22 @@ export default function aiRoutes(aiService: AIService) {
   router.post('/optimize/schedule',
     validateRequest({ body: ScheduleOptimizationSchema }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // TODO: Fetch tournament matches from database
-      const matches = []; // Placeholder
-
-      const optimizedSchedule = await aiService.optimizeSchedule(matches, {
-        maxConcurrentMatches: req.body.maxConcurrentMatches,
-        breakDuration: req.body.breakDuration,
-        preferredStartTime: req.body.preferredStartTime,
-        timezone: req.body.timezone
-      });
+      const plan = await tournamentScheduleService.planTournament(req.body.tournamentId, {
+        startAt: req.body.preferredStartTime || new Date().toISOString(),
+        stations: req.body.maxConcurrentMatches,
+        restMinutes: req.body.breakDuration
+      }, req.user!.userId);
+
+      const ends = plan.matches.map(m => m.estimatedEnd.getTime());
 
       res.json({
         success: true,
         data: {
-          originalMatches: matches,
-          optimizedSchedule,
+          optimizedSchedule: plan.matches,
           improvements: {
-            totalDuration: 'TBD',
+            averageMatchMinutes: plan.matchMinutes,
             concurrentMatches: req.body.maxConcurrentMatches,
-            estimatedCompletion: 'TBD'
+            estimatedCompletion: ends.length > 0 ? new Date(Math.max(...ends)) : null
           }
         }
       });
@@ -265,6 +257,23 @@ export default function aiRoutes(aiService: AIService) {
   router.post('/commentary/match/:id',
     validateRequest({ params: CommonSchemas.id }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const headToHead = await headToHeadService.getForMatch(req.params.id);
+      const keyPoints: string[] = [];
+
+      if (headToHead) {
+        const { competitor, opponent } = headToHead;
+        const eloGap = competitor.currentElo - opponent.currentElo;
+
+        keyPoints.push(eloGap === 0
+          ? `${competitor.name} and ${opponent.name} are level on rating`
+          : `${eloGap > 0 ? competitor.name : opponent.name} has a ${Math.abs(eloGap)} point rating advantage`);
+
+        keyPoints.push(headToHead.played > 0
+          ? `Head-to-head record is ${headToHead.wins}-${headToHead.draws}-${headToHead.losses} for ${competitor.name}, ` +
+            `${headToHead.goalsFor}-${headToHead.goalsAgainst} on goals`
+          : `This is the first meeting between ${competitor.name} and ${opponent.name}`);
+      }
+
       // TODO: Implement AI-generated match commentary
       res.json({
         success: true,
@@ -275,11 +284,8 @@ export default function aiRoutes(aiService: AIService) {
             "Both participants have shown strong performance in previous rounds.",
             "The skill differential suggests a competitive match ahead."
           ],
-          keyPoints: [
-            "Player 1 has a slight ELO advantage",
-            "Player 2 has better recent form",
-            "Head-to-head record is 2-1 in favor of Player 1"
-          ]
+          keyPoints,
+          headToHead
         }
       });
     })
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { DisputeCategory } from '@prisma/client';
 import { ArbitrationService } from '../services/ArbitrationService';
+import { EvidenceService } from '../services/EvidenceService';
 import { validateRequest, CommonSchemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest, adminMiddleware } from '../middleware/auth';
@@ -22,7 +24,10 @@ const DisputeFiltersSchema = z.object({
   offset: z.string().regex(/^\d+$/).transform(Number).default('0')
 });
 
-export default function arbitrationRoutes(arbitrationService: ArbitrationService) {
+export default function arbitrationRoutes(
+  arbitrationService: ArbitrationService,
+  evidenceService: EvidenceService
+) {
   // Get arbitration service status
   router.get('/status',
     asyncHandler(async (req: any, res: any) => {
@@ -81,9 +86,15 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
         });
       }
 
+      // Uploaded screenshots and clips, each with a short-lived download link
+      const evidenceFiles = await evidenceService.getForDispute(dispute.id);
+
       res.json({
         success: true,
-        data: dispute
+        data: {
+          ...dispute,
+          evidenceFiles
+        }
       });
     })
   );
@@ -113,6 +124,25 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
     })
   );
 
+  // Appeal a resolved dispute (parties only, within the appeal window)
+  router.post('/disputes/:id/appeal',
+    validateRequest({
+      params: CommonSchemas.id,
+      body: z.object({
+        reason: z.string().min(20).max(2000)
+      })
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const appeal = await arbitrationService.submitAppeal(req.params.id, req.user!.userId, req.body.reason);
+
+      res.status(201).json({
+        success: true,
+        message: 'Appeal submitted successfully',
+        data: appeal
+      });
+    })
+  );
+
   // Vote on dispute (for arbiters)
   router.post('/disputes/:id/vote',
     validateRequest({ 
@@ -165,28 +195,14 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
     })
   );
 
-  // Get arbitration statistics
+  // Get arbitration statistics, including disputes and votes past their SLA
   router.get('/stats',
     asyncHandler(async (req: any, res: any) => {
-      // TODO: Implement arbitration statistics
+      const stats = await arbitrationService.getArbitrationStats();
+
       res.json({
         success: true,
-        data: {
-          totalDisputes: 156,
-          resolvedDisputes: 142,
-          averageResolutionTime: '2.5 hours',
-          consensusRate: 0.91,
-          topArbiters: [
-            { id: '1', username: 'arbiter1', totalVotes: 45, accuracy: 0.94 },
-            { id: '2', username: 'arbiter2', totalVotes: 38, accuracy: 0.92 }
-          ],
-          resolutionsByCategory: {
-            'RESULT_DISPUTE': 89,
-            'CONDUCT_VIOLATION': 34,
-            'TECHNICAL_ISSUE': 23,
-            'CHEATING_ALLEGATION': 10
-          }
-        }
+        data: stats
       });
     })
   );
@@ -194,17 +210,11 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
   // Get my arbitration activity
   router.get('/my-activity',
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // TODO: Get user's arbitration activity
+      const activity = await arbitrationService.getArbiterActivity(req.user!.userId);
+
       res.json({
         success: true,
-        data: {
-          totalVotes: 23,
-          accuracy: 0.91,
-          reputation: 4.7,
-          votesThisMonth: 8,
-          pendingDisputes: 3,
-          recentVotes: []
-        }
+        data: activity
       });
     })
   );
@@ -220,15 +230,12 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
       })
     }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // TODO: Implement arbiter application
-      res.json({
+      const application = await arbitrationService.applyForArbiter(req.user!.userId, req.body);
+
+      res.status(201).json({
         success: true,
         message: 'Arbiter application submitted successfully',
-        data: {
-          applicationId: 'app_' + Math.random().toString(36).substring(7),
-          status: 'under_review',
-          estimatedReviewTime: '3-5 business days'
-        }
+        data: application
       });
     })
   );
@@ -292,36 +299,69 @@ export default function arbitrationRoutes(arbitrationService: ArbitrationService
     adminMiddleware,
     validateRequest({
       query: z.object({
-        status: z.enum(['ACTIVE', 'SUSPENDED', 'PENDING']).optional(),
+        status: z.enum(['PENDING', 'PROBATION', 'ACTIVE', 'SUSPENDED', 'REMOVED']).optional(),
         limit: z.string().regex(/^\d+$/).transform(Number).default('50'),
         offset: z.string().regex(/^\d+$/).transform(Number).default('0')
       })
     }),
     asyncHandler(async (req: any, res: any) => {
-      // TODO: Implement arbiter management
+      const arbiters = await arbitrationService.getArbiters(req.query);
+
       res.json({
         success: true,
-        data: [],
-        message: 'Arbiter management endpoint - to be implemented'
+        data: arbiters,
+        pagination: {
+          limit: req.query.limit,
+          offset: req.query.offset,
+          hasMore: arbiters.length === req.query.limit
+        }
       });
     })
   );
 
-  // Update arbiter status (admin)
+  // Update arbiter status (admin); approving an application starts probation
   router.patch('/admin/arbiters/:id/status',
     adminMiddleware,
     validateRequest({ 
       params: CommonSchemas.id,
       body: z.object({
-        status: z.enum(['ACTIVE', 'SUSPENDED', 'REMOVED']),
+        status: z.enum(['PROBATION', 'ACTIVE', 'SUSPENDED', 'REMOVED']),
         reason: z.string().optional()
       })
     }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // TODO: Implement arbiter status update
+      const profile = await arbitrationService.setArbiterStatus(
+        req.params.id,
+        req.body.status,
+        req.user!.userId,
+        req.body.reason
+      );
+
+      res.json({
+        success: true,
+        message: `Arbiter status updated to ${req.body.status}`,
+        data: profile
+      });
+    })
+  );
+
+  // Set an arbiter's specializations and workload cap (admin)
+  router.patch('/admin/arbiters/:id/profile',
+    adminMiddleware,
+    validateRequest({
+      params: CommonSchemas.id,
+      body: z.object({
+        specializations: z.array(z.nativeEnum(DisputeCategory)).optional(),
+        maxOpenDisputes: z.number().int().min(1).max(20).optional()
+      })
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const profile = await arbitrationService.updateArbiterProfile(req.params.id, req.body);
+
       res.json({
         success: true,
-        message: `Arbiter status updated to ${req.body.status}`
+        message: 'Arbiter profile updated',
+        data: profile
       });
     })
   );
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { EvidenceService } from '../services/EvidenceService';
+import { validateRequest, CommonSchemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Validation schemas
+const SignedDownloadSchema = z.object({
+  expires: z.string().regex(/^\d+$/).transform(Number),
+  signature: z.string().regex(/^[0-9a-f]{64}$/)
+});
+
+export default function evidenceRoutes(evidenceService: EvidenceService) {
+  // Download evidence through a signed, expiring link (no session needed)
+  router.get('/:id/download',
+    validateRequest({ params: CommonSchemas.id, query: SignedDownloadSchema }),
+    asyncHandler(async (req: any, res: any) => {
+      if (!evidenceService.verifyDownload(req.params.id, req.query.expires, req.query.signature)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Download link is invalid or has expired'
+        });
+      }
+
+      const download = await evidenceService.openDownload(req.params.id);
+
+      if (!download) {
+        return res.status(404).json({
+          success: false,
+          message: 'Evidence not found'
+        });
+      }
+
+      res.setHeader('Content-Type', download.mimeType);
+      res.setHeader('Content-Length', download.size);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (download.fileName) {
+        res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(download.fileName)}"`);
+      }
+
+      download.stream.pipe(res);
+    })
+  );
+
+  return router;
+}
@@ -3,9 +3,17 @@ import multer from 'multer';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { AIService } from '../services/AIService';
-import { validateRequest, CommonSchemas, validateImageUpload } from '../middleware/validation';
+import { BracketService, ELIMINATION_BRACKETS } from '../services/BracketService';
+import { MatchResultService } from '../services/MatchResultService';
+import { ArbitrationService } from '../services/ArbitrationService';
+import { MatchSchedulingService } from '../services/MatchSchedulingService';
+import { HeadToHeadService } from '../services/HeadToHeadService';
+import { EvidenceService, EVIDENCE_TYPES, MAX_VIDEO_SIZE } from '../services/EvidenceService';
+import { validateRequest, CommonSchemas, validateImageUpload, validateFileUpload } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { SeriesUtils } from '../utils/series';
+import { MatchResultUtils } from '../utils/matchResult';
 
 const router = Router();
 
@@ -17,32 +25,91 @@ const upload = multer({
   }
 });
 
+// Evidence may be a video clip; the service enforces the per-kind limits
+const evidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_VIDEO_SIZE
+  }
+});
+
 // Validation schemas
-const SubmitResultSchema = z.object({
+const GameScoreSchema = z.object({
   player1Score: z.number().min(0).max(50),
-  player2Score: z.number().min(0).max(50),
+  player2Score: z.number().min(0).max(50)
+});
+
+const SubmitResultSchema = z.object({
+  player1Score: z.number().min(0).max(50).optional(),
+  player2Score: z.number().min(0).max(50).optional(),
+  // Game-by-game scores for best-of-N series, in the order played
+  games: z.array(GameScoreSchema).min(1).max(9).optional(),
+  // Score after extra time, regulation goals included
+  extraTime: GameScoreSchema.optional(),
+  penalties: GameScoreSchema.optional(),
   additionalData: z.object({
     matchDuration: z.number().optional(),
     screenshots: z.array(z.string()).optional(),
     notes: z.string().max(500).optional()
   }).optional()
-});
+}).refine(
+  data => data.games || (data.player1Score !== undefined && data.player2Score !== undefined),
+  { message: 'Either a final score or game scores are required' }
+);
 
 const ReportDisputeSchema = z.object({
   reason: z.enum(['INCORRECT_RESULT', 'CONNECTION_ISSUE', 'CHEATING', 'NO_SHOW', 'OTHER']),
   description: z.string().min(10).max(1000),
-  evidence: z.array(z.string()).optional()
+  // IDs of evidence already uploaded to the match
+  evidence: z.array(z.string()).max(20).optional()
+});
+
+const DISPUTE_CATEGORIES = {
+  INCORRECT_RESULT: 'WRONG_RESULT',
+  CONNECTION_ISSUE: 'TECHNICAL_ISSUE',
+  CHEATING: 'CHEATING',
+  NO_SHOW: 'NO_SHOW',
+  OTHER: 'OTHER'
+} as const;
+
+const ProposeTimeSchema = z.object({
+  proposedTime: z.string().datetime()
+});
+
+const ProposalParamsSchema = z.object({
+  id: z.string().uuid(),
+  proposalId: z.string().uuid()
+});
+
+const WalkoverSchema = z.object({
+  winnerSide: z.union([z.literal(1), z.literal(2)])
+});
+
+const HeadToHeadSchema = z.object({
+  type: z.enum(['user', 'team']).default('user'),
+  competitorId: z.string().uuid(),
+  opponentId: z.string().uuid(),
+  limit: z.string().regex(/^\d+$/).transform(Number).default('5')
 });
 
 const MatchFiltersSchema = z.object({
   tournamentId: z.string().uuid().optional(),
-  status: z.enum(['PENDING', 'READY', 'LIVE', 'COMPLETED', 'CANCELLED', 'DISPUTED']).optional(),
+  status: z.enum(['PENDING', 'READY', 'LIVE', 'WAITING_RESULTS', 'COMPLETED', 'WALKOVER', 'CANCELLED', 'DISPUTED']).optional(),
   userId: z.string().uuid().optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).default('20'),
   offset: z.string().regex(/^\d+$/).transform(Number).default('0')
 });
 
-export default function matchRoutes(prisma: PrismaClient, aiService: AIService) {
+export default function matchRoutes(
+  prisma: PrismaClient,
+  aiService: AIService,
+  bracketService: BracketService,
+  matchResultService: MatchResultService,
+  matchSchedulingService: MatchSchedulingService,
+  headToHeadService: HeadToHeadService,
+  evidenceService: EvidenceService,
+  arbitrationService: ArbitrationService
+) {
   // Get matches with filters
   router.get('/',
     validateRequest({ query: MatchFiltersSchema }),
@@ -82,7 +149,7 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
             }
           },
           results: {
-            where: { status: 'VALIDATED' },
+            where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
             orderBy: { createdAt: 'desc' },
             take: 1
           }
@@ -104,6 +171,24 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
     })
   );
 
+  // Head-to-head record between two users or teams
+  router.get('/head-to-head',
+    validateRequest({ query: HeadToHeadSchema }),
+    asyncHandler(async (req: any, res: any) => {
+      const headToHead = await headToHeadService.getHeadToHead(
+        req.query.type,
+        req.query.competitorId,
+        req.query.opponentId,
+        req.query.limit
+      );
+
+      res.json({
+        success: true,
+        data: headToHead
+      });
+    })
+  );
+
   // Get single match
   router.get('/:id',
     validateRequest({ params: CommonSchemas.id }),
@@ -124,8 +209,11 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
           },
           results: {
             include: {
-              submittedBy: {
+              submitter: {
                 select: { id: true, username: true }
+              },
+              games: {
+                orderBy: { gameNumber: 'asc' }
               }
             },
             orderBy: { createdAt: 'desc' }
@@ -166,7 +254,8 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
         where: { id: req.params.id },
         include: {
           participants: true,
-          tournament: true
+          tournament: true,
+          bracket: true
         }
       });
 
@@ -187,35 +276,101 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
       }
 
       // Check if match is in correct status
-      if (match.status !== 'LIVE' && match.status !== 'READY') {
+      if (!['READY', 'LIVE', 'WAITING_RESULTS'].includes(match.status)) {
         return res.status(400).json({
           success: false,
           message: 'Match is not in a state where results can be submitted'
         });
       }
 
-      // Create match result
-      const result = await prisma.matchResult.create({
-        data: {
-          matchId: req.params.id,
-          submittedById: req.user!.userId,
-          player1Score: req.body.player1Score,
-          player2Score: req.body.player2Score,
-          status: 'PENDING',
-          additionalData: req.body.additionalData || {}
+      // Series store games won on the result, with each game nested under it
+      let player1Score = req.body.player1Score;
+      let player2Score = req.body.player2Score;
+      let seriesLevel: boolean | undefined;
+      const games = req.body.games || [];
+      const { extraTime, penalties } = req.body;
+      const isKnockout = !!match.bracket && ELIMINATION_BRACKETS.includes(match.bracket.type);
+
+      if (match.bestOfSeries > 1 && games.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: `This match is best of ${match.bestOfSeries}; report the score of each game`
+        });
+      }
+
+      if (match.bestOfSeries > 1) {
+        try {
+          const series = SeriesUtils.getSeriesResult(games, match.bestOfSeries, match.seriesTiebreak);
+          player1Score = series.player1Wins;
+          player2Score = series.player2Wins;
+          seriesLevel = series.winnerSide === null;
+        } catch (error: any) {
+          return res.status(400).json({
+            success: false,
+            message: error.message
+          });
         }
+      } else if (games.length > 0) {
+        player1Score = games[0].player1Score;
+        player2Score = games[0].player2Score;
+      }
+
+      if (match.bestOfSeries > 1 && extraTime) {
+        return res.status(400).json({
+          success: false,
+          message: 'Report extra time in the score of the game it was played in'
+        });
+      }
+
+      const scores = {
+        player1Score,
+        player2Score,
+        player1ExtraTimeScore: extraTime?.player1Score ?? null,
+        player2ExtraTimeScore: extraTime?.player2Score ?? null,
+        player1Penalties: penalties?.player1Score ?? null,
+        player2Penalties: penalties?.player2Score ?? null
+      };
+
+      try {
+        MatchResultUtils.validate(scores, isKnockout, seriesLevel);
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      // The opponent confirms or contests this report before the match completes
+      const outcome = await matchResultService.submitReport(req.params.id, req.user!.userId, {
+        ...scores,
+        games,
+        evidence: req.body.additionalData
       });
 
-      // Update match status
-      await prisma.match.update({
-        where: { id: req.params.id },
-        data: { status: 'COMPLETED' }
+      const messages = {
+        awaiting_confirmation: 'Result submitted; waiting for your opponent to confirm',
+        validated: 'Result confirmed by both sides',
+        disputed: 'Result conflicts with your opponent\'s report; a dispute has been opened'
+      };
+
+      res.json({
+        success: true,
+        message: messages[outcome.status],
+        data: outcome
       });
+    })
+  );
+
+  // Confirm the opponent's reported result
+  router.post('/:id/result/confirm',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const outcome = await matchResultService.confirmResult(req.params.id, req.user!.userId);
 
       res.json({
         success: true,
-        message: 'Match result submitted successfully',
-        data: result
+        message: 'Result confirmed',
+        data: outcome
       });
     })
   );
@@ -228,7 +383,7 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
       const match = await prisma.match.findUnique({
         where: { id: req.params.id },
-        include: { participants: true }
+        include: { participants: true, bracket: true }
       });
 
       if (!match) {
@@ -254,57 +409,72 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
         });
       }
 
-      try {
-        // Use AI service to validate the screenshot
-        const aiResult = await aiService.validateMatchResult(req.file.buffer, req.file.mimetype);
-
-        // Create match result with AI validation
-        const result = await prisma.matchResult.create({
-          data: {
-            matchId: req.params.id,
-            submittedById: req.user!.userId,
-            player1Score: aiResult.player1Score,
-            player2Score: aiResult.player2Score,
-            status: aiResult.confidence > 0.8 ? 'VALIDATED' : 'PENDING',
-            screenshotUrl: `screenshot_${Date.now()}.png`, // TODO: Upload to cloud storage
-            aiValidation: {
-              confidence: aiResult.confidence,
-              anomalies: aiResult.anomalies,
-              ocrText: aiResult.ocrText
-            }
-          }
-        });
-
-        // Update match status
-        await prisma.match.update({
-          where: { id: req.params.id },
-          data: { 
-            status: aiResult.confidence > 0.8 ? 'COMPLETED' : 'PENDING'
-          }
-        });
-
-        res.json({
-          success: true,
-          message: aiResult.confidence > 0.8 
-            ? 'Match result validated automatically' 
-            : 'Match result submitted for manual review',
-          data: {
-            result,
-            aiValidation: {
-              confidence: aiResult.confidence,
-              anomalies: aiResult.anomalies,
-              autoValidated: aiResult.confidence > 0.8
-            }
-          }
+      // A screenshot shows one final score, not each game of a series
+      if (match.bestOfSeries > 1) {
+        return res.status(400).json({
+          success: false,
+          message: `This match is best of ${match.bestOfSeries}; report the score of each game`
         });
+      }
 
+      let aiResult;
+      try {
+        // Use AI service to read the score from the screenshot
+        aiResult = await aiService.validateMatchResult(req.file.buffer, req.file.mimetype);
       } catch (error) {
         console.error('AI validation error:', error);
-        res.status(500).json({
+        return res.status(500).json({
           success: false,
           message: 'Failed to process screenshot. Please try again or submit manually.'
         });
       }
+
+      const scores = {
+        player1Score: aiResult.player1Score,
+        player2Score: aiResult.player2Score
+      };
+
+      try {
+        const isKnockout = !!match.bracket && ELIMINATION_BRACKETS.includes(match.bracket.type);
+        MatchResultUtils.validate(scores, isKnockout);
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          message: `${error.message}. Submit the result manually.`
+        });
+      }
+
+      // Keep the screenshot, so arbiters can check it if the result is disputed
+      const screenshot = await evidenceService.upload(req.params.id, req.user!.userId, req.file);
+
+      // The score read from the screenshot is a report like any other: the
+      // opponent confirms or contests it before the match completes
+      const outcome = await matchResultService.submitReport(req.params.id, req.user!.userId, {
+        ...scores,
+        games: [],
+        evidence: [{ evidenceId: screenshot.id }],
+        ocrData: { ocrText: aiResult.ocrText },
+        confidence: aiResult.confidence,
+        anomalies: aiResult.anomalies
+      });
+
+      const messages = {
+        awaiting_confirmation: 'Screenshot result submitted; waiting for your opponent to confirm',
+        validated: 'Screenshot result matches your opponent\'s report and is confirmed',
+        disputed: 'Screenshot result conflicts with your opponent\'s report; a dispute has been opened'
+      };
+
+      res.json({
+        success: true,
+        message: messages[outcome.status],
+        data: {
+          ...outcome,
+          aiValidation: {
+            confidence: aiResult.confidence,
+            anomalies: aiResult.anomalies
+          }
+        }
+      });
     })
   );
 
@@ -322,29 +492,41 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
     }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
       // TODO: Check if user has permission to validate results
-      
+
+      // Only a result reported for this match can settle it
+      const existing = await prisma.matchResult.findFirst({
+        where: { id: req.params.resultId, matchId: req.params.id }
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Result not found'
+        });
+      }
+
       const result = await prisma.matchResult.update({
-        where: { id: req.params.resultId },
+        where: { id: existing.id },
         data: {
           status: req.body.action === 'VALIDATE' ? 'VALIDATED' : 'REJECTED',
-          validatedById: req.user!.userId,
-          validatedAt: new Date(),
-          validationReason: req.body.reason
+          validatedBy: req.user!.userId,
+          validatedAt: new Date()
         }
       });
 
+      let progression = null;
       if (req.body.action === 'VALIDATE') {
-        // Update match status to completed
-        await prisma.match.update({
-          where: { id: req.params.id },
-          data: { status: 'COMPLETED' }
-        });
+        // Complete the match and advance the winner through the bracket
+        progression = await bracketService.processValidatedResult(req.params.id);
       }
 
       res.json({
         success: true,
         message: `Result ${req.body.action.toLowerCase()}d successfully`,
-        data: result
+        data: {
+          result,
+          progression
+        }
       });
     })
   );
@@ -381,7 +563,7 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
       const existingDispute = await prisma.dispute.findFirst({
         where: {
           matchId: req.params.id,
-          status: { in: ['OPEN', 'UNDER_REVIEW'] }
+          status: { in: ['OPEN', 'UNDER_REVIEW', 'ESCALATED'] }
         }
       });
 
@@ -392,22 +574,19 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
         });
       }
 
-      const dispute = await prisma.dispute.create({
-        data: {
-          matchId: req.params.id,
-          reporterId: req.user!.userId,
-          reason: req.body.reason,
-          description: req.body.description,
-          evidence: req.body.evidence || [],
-          status: 'OPEN'
-        }
+      // Arbitration sets the deadline and assigns the panel; the open dispute
+      // holds the match back from rating until it is settled
+      const dispute = await arbitrationService.submitDispute({
+        tournamentId: match.tournamentId,
+        matchId: req.params.id,
+        reportedBy: req.user!.userId,
+        category: DISPUTE_CATEGORIES[req.body.reason as keyof typeof DISPUTE_CATEGORIES],
+        description: req.body.description
       });
 
-      // Update match status to disputed
-      await prisma.match.update({
-        where: { id: req.params.id },
-        data: { status: 'DISPUTED' }
-      });
+      if (req.body.evidence?.length) {
+        await evidenceService.attachToDispute(dispute.id, req.body.evidence);
+      }
 
       res.json({
         success: true,
@@ -417,6 +596,22 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
     })
   );
 
+  // Upload a screenshot or video clip as evidence for the match
+  router.post('/:id/evidence',
+    evidenceUpload.single('file'),
+    validateFileUpload(EVIDENCE_TYPES, MAX_VIDEO_SIZE),
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const evidence = await evidenceService.upload(req.params.id, req.user!.userId, req.file!);
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence uploaded',
+        data: evidence
+      });
+    })
+  );
+
   // Get match disputes
   router.get('/:id/disputes',
     validateRequest({ params: CommonSchemas.id }),
@@ -493,5 +688,141 @@ export default function matchRoutes(prisma: PrismaClient, aiService: AIService)
     })
   );
 
+  // Head-to-head record of the match's two sides, from side 1's point of view
+  router.get('/:id/head-to-head',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const headToHead = await headToHeadService.getForMatch(req.params.id);
+
+      res.json({
+        success: true,
+        data: headToHead
+      });
+    })
+  );
+
+  // Get the match schedule, with proposals and each side's time zone
+  router.get('/:id/schedule',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const schedule = await matchSchedulingService.getSchedule(req.params.id);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+    })
+  );
+
+  // Propose a match time to the opponent
+  router.post('/:id/schedule/proposals',
+    validateRequest({
+      params: CommonSchemas.id,
+      body: ProposeTimeSchema
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const proposal = await matchSchedulingService.proposeTime(
+        req.params.id,
+        req.user!.userId,
+        new Date(req.body.proposedTime)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Time proposed to your opponent',
+        data: proposal
+      });
+    })
+  );
+
+  // Accept the opponent's proposed time
+  router.post('/:id/schedule/proposals/:proposalId/accept',
+    validateRequest({ params: ProposalParamsSchema }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const proposal = await matchSchedulingService.acceptProposal(
+        req.params.id,
+        req.params.proposalId,
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        message: 'Match time agreed',
+        data: proposal
+      });
+    })
+  );
+
+  // Answer the opponent's proposal with another time
+  router.post('/:id/schedule/proposals/:proposalId/counter',
+    validateRequest({
+      params: ProposalParamsSchema,
+      body: ProposeTimeSchema
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const proposal = await matchSchedulingService.counterPropose(
+        req.params.id,
+        req.params.proposalId,
+        req.user!.userId,
+        new Date(req.body.proposedTime)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Counter-proposal sent to your opponent',
+        data: proposal
+      });
+    })
+  );
+
+  // End a live match; both sides then report the score
+  router.post('/:id/end',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const match = await matchResultService.endMatch(req.params.id, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Match ended; report the final score',
+        data: match
+      });
+    })
+  );
+
+  // Forfeit: the opponent wins by walkover
+  router.post('/:id/forfeit',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const outcome = await matchResultService.forfeit(req.params.id, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Match forfeited',
+        data: outcome
+      });
+    })
+  );
+
+  // Award a walkover (for organizers)
+  router.post('/:id/walkover',
+    validateRequest({
+      params: CommonSchemas.id,
+      body: WalkoverSchema
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const outcome = await matchResultService.awardWalkoverAsOrganizer(
+        req.params.id,
+        req.body.winnerSide,
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        message: 'Walkover awarded',
+        data: outcome
+      });
+    })
+  );
+
   return router;
 }
\ No newline at end of file
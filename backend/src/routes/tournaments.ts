@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { TournamentStatus } from '@prisma/client';
 import { TournamentService } from '../services/TournamentService';
+import { MatchSchedulingService } from '../services/MatchSchedulingService';
+import { TournamentScheduleService } from '../services/TournamentScheduleService';
 import { validateRequest, CommonSchemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest, organizerMiddleware } from '../middleware/auth';
@@ -24,6 +27,8 @@ const CreateTournamentSchema = z.object({
   prizePool: z.number().min(0).default(0),
   isPublic: z.boolean().default(true),
   requiresApproval: z.boolean().default(false),
+  resultConfirmationMinutes: z.number().int().min(5).max(1440).default(30),
+  noShowMinutes: z.number().int().min(5).max(120).default(15),
   rules: z.array(z.string()).optional(),
   streamingEnabled: z.boolean().default(false),
   discordIntegration: z.boolean().default(false)
@@ -36,12 +41,49 @@ const RegisterSchema = z.object({
 });
 
 const GenerateBracketsSchema = z.object({
-  seedingMethod: z.enum(['random', 'elo', 'manual']).default('elo'),
-  groupSize: z.number().min(2).max(8).optional()
+  seedingMethod: z.enum(['random', 'elo', 'manual', 'hybrid']).default('elo'),
+  separateBy: z.enum(['none', 'region', 'club']).default('none'),
+  groupSize: z.number().min(2).max(8).optional(),
+  grandFinalReset: z.boolean().default(true),
+  doubleRoundRobin: z.boolean().default(false),
+  matchdayIntervalDays: z.number().min(1).max(30).default(7),
+  groupCount: z.number().min(2).max(32).optional(),
+  qualifiersPerGroup: z.number().min(1).max(8).default(2),
+  crossGroupPairing: z.enum(['adjacent', 'seeded']).default('adjacent'),
+  bestOf: z.number().int().min(1).max(9).default(1),
+  bestOfByRound: z.record(z.union([z.string().regex(/^\d+$/), z.literal('final')]), z.number().int().min(1).max(9)).optional(),
+  seriesTiebreak: z.enum(['NONE', 'AGGREGATE', 'AWAY_GOALS']).default('NONE')
+});
+
+const UpdateSeedsSchema = z.object({
+  seeds: z.array(z.object({
+    participantId: z.string(),
+    seed: z.number().int().min(1),
+    pinned: z.boolean().default(false)
+  })).min(1)
+});
+
+const StartCheckInSchema = z.object({
+  durationMinutes: z.number().min(5).max(240).default(30)
+});
+
+const SchedulePlanSchema = z.object({
+  startAt: z.string().datetime(),
+  stations: z.number().int().min(1).max(64).default(4),
+  streamSlots: z.number().int().min(0).max(8).default(1),
+  restMinutes: z.number().int().min(0).max(120).default(15),
+  defaultMatchMinutes: z.number().int().min(5).max(240).default(30)
+});
+
+const ScheduleDefaultsSchema = z.object({
+  round: z.number().int().min(1),
+  bracketId: z.string().optional(),
+  defaultScheduledAt: z.string().datetime(),
+  schedulingDeadline: z.string().datetime()
 });
 
 const TournamentFiltersSchema = z.object({
-  status: z.enum(['DRAFT', 'REGISTRATION_OPEN', 'REGISTRATION_CLOSED', 'CHECK_IN', 'LIVE', 'COMPLETED', 'CANCELLED']).optional(),
+  status: z.nativeEnum(TournamentStatus).optional(),
   format: z.enum(['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'ROUND_ROBIN', 'SWISS', 'LEAGUE', 'CUSTOM']).optional(),
   gameMode: z.enum(['ULTIMATE_TEAM', 'KICK_OFF', 'CAREER_MODE', 'VOLTA_FOOTBALL', 'PRO_CLUBS']).optional(),
   isPublic: z.string().transform(val => val === 'true').optional(),
@@ -50,7 +92,11 @@ const TournamentFiltersSchema = z.object({
   offset: z.string().regex(/^\d+$/).transform(Number).default('0')
 });
 
-export default function tournamentRoutes(tournamentService: TournamentService) {
+export default function tournamentRoutes(
+  tournamentService: TournamentService,
+  matchSchedulingService: MatchSchedulingService,
+  tournamentScheduleService: TournamentScheduleService
+) {
   // Get tournaments with filters
   router.get('/',
     validateRequest({ query: TournamentFiltersSchema }),
@@ -159,6 +205,27 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
     })
   );
 
+  // Save seeds from the seeding editor
+  router.put('/:id/seeds',
+    validateRequest({ 
+      params: CommonSchemas.id,
+      body: UpdateSeedsSchema 
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const participants = await tournamentService.updateSeeds(
+        req.params.id,
+        req.user!.userId,
+        req.body
+      );
+      
+      res.json({
+        success: true,
+        message: 'Seeds updated successfully',
+        data: participants
+      });
+    })
+  );
+
   // Generate brackets
   router.post('/:id/brackets',
     validateRequest({ 
@@ -218,7 +285,7 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
       params: CommonSchemas.id,
       query: z.object({
         round: z.string().regex(/^\d+$/).transform(Number).optional(),
-        status: z.enum(['PENDING', 'READY', 'LIVE', 'COMPLETED', 'CANCELLED']).optional(),
+        status: z.enum(['PENDING', 'READY', 'LIVE', 'COMPLETED', 'WALKOVER', 'CANCELLED']).optional(),
         limit: z.string().regex(/^\d+$/).transform(Number).default('50'),
         offset: z.string().regex(/^\d+$/).transform(Number).default('0')
       })
@@ -238,7 +305,7 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
     validateRequest({ 
       params: CommonSchemas.id,
       body: z.object({
-        status: z.enum(['DRAFT', 'REGISTRATION_OPEN', 'REGISTRATION_CLOSED', 'CHECK_IN', 'LIVE', 'COMPLETED', 'CANCELLED'])
+        status: z.nativeEnum(TournamentStatus)
       })
     }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
@@ -258,12 +325,68 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
 
   // Start check-in period
   router.post('/:id/check-in/start',
+    validateRequest({ 
+      params: CommonSchemas.id,
+      body: StartCheckInSchema
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const tournament = await tournamentService.startCheckIn(
+        req.params.id,
+        req.user!.userId,
+        req.body.durationMinutes
+      );
+      
+      res.json({
+        success: true,
+        message: 'Check-in started',
+        data: tournament
+      });
+    })
+  );
+
+  // Get the planned match schedule
+  router.get('/:id/schedule',
     validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const schedule = await tournamentScheduleService.getSchedule(req.params.id);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+    })
+  );
+
+  // Plan the match schedule and write match times (for organizers)
+  router.put('/:id/schedule',
+    validateRequest({
+      params: CommonSchemas.id,
+      body: SchedulePlanSchema
+    }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // This would implement check-in logic
+      const plan = await tournamentScheduleService.planTournament(req.params.id, req.body, req.user!.userId);
+
       res.json({
         success: true,
-        message: 'Check-in started - to be implemented'
+        message: `Scheduled ${plan.matches.length} matches`,
+        data: plan
+      });
+    })
+  );
+
+  // Set the default slot and scheduling deadline for a round (for organizers)
+  router.put('/:id/schedule-defaults',
+    validateRequest({
+      params: CommonSchemas.id,
+      body: ScheduleDefaultsSchema
+    }),
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+      const result = await matchSchedulingService.setDefaultSlot(req.params.id, req.body, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: `Default slot set for ${result.updated} matches`,
+        data: result
       });
     })
   );
@@ -272,10 +395,12 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
   router.post('/:id/check-in',
     validateRequest({ params: CommonSchemas.id }),
     asyncHandler(async (req: AuthenticatedRequest, res: any) => {
-      // This would implement participant check-in
+      const participant = await tournamentService.checkIn(req.params.id, req.user!.userId);
+      
       res.json({
         success: true,
-        message: 'Check-in successful - to be implemented'
+        message: 'Check-in successful',
+        data: participant
       });
     })
   );
@@ -289,11 +414,11 @@ export default function tournamentRoutes(tournamentService: TournamentService) {
       })
     }),
     asyncHandler(async (req: any, res: any) => {
-      // This would get current standings/leaderboard
+      const leaderboard = await tournamentService.getLeaderboard(req.params.id, req.query.limit);
+      
       res.json({
         success: true,
-        data: [],
-        message: 'Leaderboard endpoint - to be implemented'
+        data: leaderboard
       });
     })
   );
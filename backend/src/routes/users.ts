@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, TournamentStatus, GameMode } from '@prisma/client';
 import { validateRequest, CommonSchemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthenticatedRequest, adminMiddleware } from '../middleware/auth';
+import { RatingService } from '../services/RatingService';
+import { LadderService } from '../services/LadderService';
 
 const router = Router();
 
@@ -25,7 +27,7 @@ const UserFiltersSchema = z.object({
   offset: z.string().regex(/^\d+$/).transform(Number).default('0')
 });
 
-export default function userRoutes(prisma: PrismaClient) {
+export default function userRoutes(prisma: PrismaClient, ratingService: RatingService, ladderService: LadderService) {
   // Get users (public endpoint with limited data)
   router.get('/',
     validateRequest({ query: UserFiltersSchema }),
@@ -176,7 +178,7 @@ export default function userRoutes(prisma: PrismaClient) {
         },
         include: {
           results: {
-            where: { status: 'VALIDATED' }
+            where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } }
           },
           participants: {
             include: {
@@ -239,12 +241,44 @@ export default function userRoutes(prisma: PrismaClient) {
     })
   );
 
+  // Get user ratings, one per game mode
+  router.get('/:id/ratings',
+    validateRequest({ params: CommonSchemas.id }),
+    asyncHandler(async (req: any, res: any) => {
+      const ratings = await ratingService.getRatings(req.params.id);
+
+      res.json({
+        success: true,
+        data: ratings
+      });
+    })
+  );
+
+  // Get user rating history
+  router.get('/:id/ratings/history',
+    validateRequest({
+      params: CommonSchemas.id,
+      query: z.object({
+        gameMode: z.nativeEnum(GameMode).optional(),
+        limit: z.string().regex(/^\d+$/).transform(Number).default('50')
+      })
+    }),
+    asyncHandler(async (req: any, res: any) => {
+      const history = await ratingService.getHistory(req.params.id, req.query.gameMode, req.query.limit);
+
+      res.json({
+        success: true,
+        data: history
+      });
+    })
+  );
+
   // Get user tournaments
   router.get('/:id/tournaments',
     validateRequest({ 
       params: CommonSchemas.id,
       query: z.object({
-        status: z.enum(['DRAFT', 'REGISTRATION_OPEN', 'REGISTRATION_CLOSED', 'CHECK_IN', 'LIVE', 'COMPLETED', 'CANCELLED']).optional(),
+        status: z.nativeEnum(TournamentStatus).optional(),
         limit: z.string().regex(/^\d+$/).transform(Number).default('20'),
         offset: z.string().regex(/^\d+$/).transform(Number).default('0')
       })
@@ -292,7 +326,7 @@ export default function userRoutes(prisma: PrismaClient) {
     validateRequest({ 
       params: CommonSchemas.id,
       query: z.object({
-        status: z.enum(['PENDING', 'READY', 'LIVE', 'COMPLETED', 'CANCELLED']).optional(),
+        status: z.enum(['PENDING', 'READY', 'LIVE', 'COMPLETED', 'WALKOVER', 'CANCELLED']).optional(),
         limit: z.string().regex(/^\d+$/).transform(Number).default('20'),
         offset: z.string().regex(/^\d+$/).transform(Number).default('0')
       })
@@ -322,7 +356,7 @@ export default function userRoutes(prisma: PrismaClient) {
             }
           },
           results: {
-            where: { status: 'VALIDATED' },
+            where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
             take: 1
           }
         },
@@ -343,15 +377,78 @@ export default function userRoutes(prisma: PrismaClient) {
     })
   );
 
-  // Get leaderboard
+  // Get ladder seasons
+  router.get('/leaderboard/seasons',
+    validateRequest({
+      query: z.object({
+        gameMode: z.nativeEnum(GameMode).optional()
+      })
+    }),
+    asyncHandler(async (req: any, res: any) => {
+      const seasons = await ladderService.getSeasons(req.query.gameMode);
+
+      res.json({
+        success: true,
+        data: seasons
+      });
+    })
+  );
+
+  // Get leaderboard: a season ladder ('current' is the running season) or
+  // all-time ratings
   router.get('/leaderboard',
     validateRequest({
       query: z.object({
+        season: z.string().default('current'),
+        gameMode: z.nativeEnum(GameMode).default('ULTIMATE_TEAM'),
+        userId: z.string().optional(),
         platform: z.enum(['PLAYSTATION', 'XBOX', 'PC', 'NINTENDO']).optional(),
-        limit: z.string().regex(/^\d+$/).transform(Number).default('50')
+        limit: z.string().regex(/^\d+$/).transform(Number).default('50'),
+        offset: z.string().regex(/^\d+$/).transform(Number).default('0')
       })
     }),
     asyncHandler(async (req: any, res: any) => {
+      const seasonId = req.query.season === 'current' ? undefined : req.query.season;
+
+      if (req.query.userId) {
+        if (req.query.season !== 'all') {
+          const standing = await ladderService.getStanding(req.query.userId, req.query.gameMode, seasonId);
+
+          return res.json({
+            success: true,
+            data: standing
+          });
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { id: req.query.userId },
+          select: { id: true, username: true, displayName: true, avatar: true, country: true, currentElo: true }
+        });
+        const ahead = user
+          ? await prisma.user.count({ where: { currentElo: { gt: user.currentElo } } })
+          : 0;
+
+        return res.json({
+          success: true,
+          data: user ? { ...user, value: user.currentElo, rank: ahead + 1, change: 0 } : null
+        });
+      }
+
+      const ladder = req.query.season === 'all' ? null : await ladderService.getLeaderboard({
+        seasonId,
+        gameMode: req.query.gameMode,
+        limit: req.query.limit,
+        offset: req.query.offset
+      });
+
+      if (ladder) {
+        return res.json({
+          success: true,
+          data: ladder.entries,
+          season: ladder.season
+        });
+      }
+
       const where: any = {
         status: 'ACTIVE'
       };
@@ -378,14 +475,16 @@ export default function userRoutes(prisma: PrismaClient) {
           }
         },
         orderBy: { currentElo: 'desc' },
-        take: req.query.limit
+        take: req.query.limit,
+        skip: req.query.offset
       });
 
       res.json({
         success: true,
         data: users.map((user, index) => ({
           ...user,
-          rank: index + 1
+          value: user.currentElo,
+          rank: req.query.offset + index + 1
         }))
       });
     })
@@ -2,6 +2,7 @@ import OpenAI from 'openai';
 import Tesseract from 'tesseract.js';
 import sharp from 'sharp';
 import { z } from 'zod';
+import { HeadToHead } from './HeadToHeadService';
 
 // Types
 interface TournamentOptimization {
@@ -483,7 +484,7 @@ export class AIService {
   async predictMatchOutcome(
     player1Stats: any,
     player2Stats: any,
-    historicalData?: any[]
+    headToHead?: HeadToHead
   ): Promise<{
     player1WinProbability: number;
     player2WinProbability: number;
@@ -495,10 +496,33 @@ export class AIService {
     const player2Elo = player2Stats.currentElo || 1200;
     
     const eloDifference = player1Elo - player2Elo;
-    const player1WinProbability = 1 / (1 + Math.pow(10, -eloDifference / 400));
-    const player2WinProbability = 1 - player1WinProbability;
+    let player1WinProbability = 1 / (1 + Math.pow(10, -eloDifference / 400));
+    let confidence = 0.7;
 
     const factors: string[] = [];
+
+    // The pair's own record counts for more the more often they've met
+    if (headToHead && headToHead.played > 0) {
+      const record = (headToHead.wins + headToHead.draws / 2) / headToHead.played;
+      const weight = Math.min(headToHead.played, 10) * 0.03;
+
+      player1WinProbability = player1WinProbability * (1 - weight) + record * weight;
+      confidence = Math.min(0.9, confidence + headToHead.played * 0.02);
+
+      factors.push(
+        `Head-to-head record is ${headToHead.wins}-${headToHead.draws}-${headToHead.losses} ` +
+        `from ${headToHead.played} meeting${headToHead.played === 1 ? '' : 's'}`
+      );
+
+      if (headToHead.streak.length >= 3) {
+        const holder = headToHead.streak.holderId === headToHead.competitor.id
+          ? 'Player 1'
+          : 'Player 2';
+        factors.push(`${holder} has won the last ${headToHead.streak.length} meetings`);
+      }
+    }
+
+    const player2WinProbability = 1 - player1WinProbability;
     
     if (Math.abs(eloDifference) > 200) {
       factors.push(`Significant ELO difference (${Math.abs(eloDifference)} points)`);
@@ -513,54 +537,8 @@ export class AIService {
     return {
       player1WinProbability,
       player2WinProbability,
-      confidence: 0.7,
+      confidence,
       factors
     };
   }
-
-  // ===== SCHEDULE OPTIMIZATION =====
-
-  async optimizeSchedule(
-    matches: any[],
-    constraints: {
-      maxConcurrentMatches?: number;
-      breakDuration?: number;
-      preferredStartTime?: string;
-      timezone?: string;
-    }
-  ): Promise<any[]> {
-    // Simple greedy algorithm for schedule optimization
-    const optimizedMatches = [...matches];
-    const maxConcurrent = constraints.maxConcurrentMatches || 4;
-    const breakDuration = constraints.breakDuration || 15; // minutes
-
-    let currentTime = new Date(constraints.preferredStartTime || Date.now());
-    const slots: Date[][] = Array(maxConcurrent).fill(null).map(() => []);
-
-    for (let i = 0; i < optimizedMatches.length; i++) {
-      // Find the earliest available slot
-      let earliestSlot = 0;
-      let earliestTime = slots[0][slots[0].length - 1] || currentTime;
-
-      for (let j = 1; j < slots.length; j++) {
-        const slotTime = slots[j][slots[j].length - 1] || currentTime;
-        if (slotTime < earliestTime) {
-          earliestSlot = j;
-          earliestTime = slotTime;
-        }
-      }
-
-      // Schedule match in the earliest slot
-      const matchStart = new Date(earliestTime.getTime() + (breakDuration * 60 * 1000));
-      const matchEnd = new Date(matchStart.getTime() + (30 * 60 * 1000)); // 30 min average
-
-      optimizedMatches[i].scheduledAt = matchStart;
-      optimizedMatches[i].estimatedEnd = matchEnd;
-      optimizedMatches[i].slot = earliestSlot;
-
-      slots[earliestSlot].push(matchEnd);
-    }
-
-    return optimizedMatches;
-  }
 }
\ No newline at end of file
@@ -1,5 +1,24 @@
-import { PrismaClient, DisputeCategory, DisputeStatus, ArbitrationDecision } from '@prisma/client';
+import {
+  PrismaClient,
+  Prisma,
+  DisputeCategory,
+  DisputeStatus,
+  DisputePriority,
+  ArbitrationDecision,
+  ArbiterStatus
+} from '@prisma/client';
+import { Queue } from 'bull';
 import { AIService } from './AIService';
+import { BracketService } from './BracketService';
+import { NotificationService } from './NotificationService';
+import {
+  ArbitrationUtils,
+  ArbiterCandidate,
+  DEFAULT_ARBITER_CAPACITY,
+  APPEAL_WINDOW_HOURS,
+  APPEAL_PANEL_EXTRA,
+  SHADOWS_PER_DISPUTE
+} from '../utils/arbitration';
 
 interface DisputeAnalysis {
   category: DisputeCategory;
@@ -24,6 +43,24 @@ interface ArbitrationConsensus {
   resolved: boolean;
 }
 
+// Disputes that still need their arbiters' votes
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'UNDER_REVIEW'];
+
+const SLA_SWEEP_INTERVAL = 5 * 60 * 1000;
+
+// Moderators and admins without a profile predate onboarding and stay eligible
+const ELIGIBLE_ARBITER: Prisma.UserWhereInput = {
+  isActive: true,
+  isBanned: false,
+  OR: [
+    { arbiterProfile: { status: 'ACTIVE' } },
+    { role: { in: ['MODERATOR', 'ADMIN'] }, arbiterProfile: { is: null } }
+  ]
+};
+
+// Decisions that settle which reported result stands
+const RESULT_DECISIONS: ArbitrationDecision[] = ['APPROVE_ORIGINAL', 'APPROVE_DISPUTE'];
+
 interface ArbitrationPool {
   totalArbiters: number;
   activeArbiters: number;
@@ -35,13 +72,19 @@ interface ArbitrationPool {
 export class ArbitrationService {
   constructor(
     private prisma: PrismaClient,
-    private aiService: AIService
-  ) {}
+    private aiService: AIService,
+    private bracketService?: BracketService,
+    private notificationService?: NotificationService,
+    private arbitrationQueue?: Queue
+  ) {
+    this.arbitrationQueue?.process(() => this.runSlaSweep());
+    this.scheduleSlaSweep().catch(error => console.error('Failed to schedule arbitration SLA sweep:', error));
+  }
 
   // ===== DISPUTE CREATION & ANALYSIS =====
 
   async submitDispute(data: {
-    tournamentId: string;
+    tournamentId?: string | null;
     matchId?: string;
     reportedBy: string;
     category: DisputeCategory;
@@ -62,7 +105,8 @@ export class ArbitrationService {
         description: data.description,
         evidence: data.evidence || [],
         status: 'OPEN',
-        priority: analysis.priority
+        priority: analysis.priority,
+        dueAt: ArbitrationUtils.resolutionDeadline(analysis.priority)
       },
       include: {
         tournament: {
@@ -77,11 +121,9 @@ export class ArbitrationService {
       }
     });
 
-    // Auto-assign arbiters based on category and availability
+    // Auto-assign arbiters based on category and availability; each is notified
     await this.assignArbiters(dispute.id, data.category, analysis.priority);
-
-    // Send notifications to assigned arbiters
-    await this.notifyArbiters(dispute.id);
+    await this.assignShadowArbiters(dispute.id, analysis.priority);
 
     return {
       ...dispute,
@@ -89,6 +131,109 @@ export class ArbitrationService {
     };
   }
 
+  // ===== APPEALS =====
+
+  /**
+   * Contest a resolved dispute. The appeal is a dispute of its own, heard by a
+   * larger panel of senior arbiters who sat on neither the original panel nor
+   * have a conflict of interest. Appeal decisions are final.
+   */
+  async submitAppeal(disputeId: string, userId: string, reason: string): Promise<any> {
+    const original = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: {
+        appeal: { select: { id: true } },
+        match: { select: { participants: { select: { userId: true } } } },
+        votes: { where: { expiredAt: null, isShadow: false }, select: { id: true } }
+      }
+    });
+
+    if (!original) {
+      throw new Error('Dispute not found');
+    }
+
+    if (original.appealOfId) {
+      throw new Error('Appeal decisions are final');
+    }
+
+    if (original.status !== 'RESOLVED' || !original.resolvedAt) {
+      throw new Error('Only resolved disputes can be appealed');
+    }
+
+    if (original.appeal) {
+      throw new Error('This dispute has already been appealed');
+    }
+
+    const windowClosesAt = original.resolvedAt.getTime() + APPEAL_WINDOW_HOURS * 60 * 60 * 1000;
+    if (Date.now() > windowClosesAt) {
+      throw new Error('The appeal window for this dispute has closed');
+    }
+
+    const parties = [original.reportedBy, ...(original.match?.participants || []).map(p => p.userId)];
+    if (!parties.includes(userId)) {
+      throw new Error('Only parties to the dispute can appeal');
+    }
+
+    const priority: DisputePriority = original.priority === 'URGENT' ? 'URGENT' : 'HIGH';
+
+    const appeal = await this.prisma.dispute.create({
+      data: {
+        tournamentId: original.tournamentId,
+        matchId: original.matchId,
+        reportedBy: userId,
+        appealOfId: original.id,
+        category: original.category,
+        description: reason,
+        status: 'OPEN',
+        priority,
+        dueAt: ArbitrationUtils.resolutionDeadline(priority)
+      }
+    });
+
+    const panelSize = original.votes.length + APPEAL_PANEL_EXTRA;
+    const assigned = await this.assignArbiters(appeal.id, appeal.category, priority, panelSize);
+
+    if (assigned === 0) {
+      await this.escalateDispute(appeal.id, 'No senior arbiters are available to hear the appeal');
+    }
+
+    return await this.getDispute(appeal.id);
+  }
+
+  private async resolveAppeal(appeal: any, decision: ArbitrationDecision, resolvedBy: string): Promise<void> {
+    const original = await this.prisma.dispute.findUnique({
+      where: { id: appeal.appealOfId }
+    });
+
+    if (!original || decision === original.finalDecision || decision === 'ESCALATE') {
+      console.log(`Appeal ${appeal.id}: Original decision upheld`);
+      return;
+    }
+
+    // Swapping one result decision for the other only matters for score disputes
+    if (RESULT_DECISIONS.includes(decision) && original.category !== 'WRONG_RESULT') {
+      console.log(`Appeal ${appeal.id}: Decision overturned without changing the result`);
+      return;
+    }
+
+    // Only a result, not a rematch or disqualification, can be undone automatically
+    if (!original.matchId || !original.finalDecision || !RESULT_DECISIONS.includes(original.finalDecision)) {
+      await this.escalateDispute(appeal.id, 'The overturned decision cannot be undone automatically');
+      return;
+    }
+
+    if (!await this.bracketService?.reopenMatch(original.matchId)) {
+      await this.escalateDispute(appeal.id, 'The overturned result has already been built upon');
+      return;
+    }
+
+    if (!RESULT_DECISIONS.includes(decision)) {
+      await this.applyResolution(original, decision, resolvedBy);
+    } else if (!await this.confirmReportedResult(original, decision === 'APPROVE_ORIGINAL' ? 0 : 1)) {
+      await this.reverseMatchResult(original.matchId, resolvedBy);
+    }
+  }
+
   private async analyzeDispute(data: {
     category: DisputeCategory;
     description: string;
@@ -254,26 +399,29 @@ export class ArbitrationService {
   private async assignArbiters(
     disputeId: string,
     category: DisputeCategory,
-    priority: string
-  ): Promise<void> {
-    
-    // Determine number of arbiters needed based on priority
-    const arbitersNeeded = this.getArbitersNeeded(priority);
+    priority: DisputePriority,
+    arbitersNeeded: number = this.getArbitersNeeded(priority)
+  ): Promise<number> {
     
     // Find qualified arbiters
-    const qualifiedArbiters = await this.findQualifiedArbiters(category, arbitersNeeded);
+    const qualifiedArbiters = await this.findQualifiedArbiters(disputeId, category, arbitersNeeded);
     
-    // Assign arbiters to dispute
+    // Assign arbiters to dispute, each with their own voting deadline
     for (const arbiter of qualifiedArbiters) {
-      await this.prisma.arbitrationVote.create({
+      const vote = await this.prisma.arbitrationVote.create({
         data: {
           disputeId,
           arbiterId: arbiter.id,
           vote: 'ESCALATE', // Initial state, to be updated when arbiter votes
-          confidence: 0.5
+          confidence: 0.5,
+          dueAt: ArbitrationUtils.voteDeadline(priority)
         }
       });
+
+      await this.notificationService?.notifyArbiterAssigned(disputeId, arbiter.id, vote.dueAt!);
     }
+
+    return qualifiedArbiters.length;
   }
 
   private getArbitersNeeded(priority: string): number {
@@ -286,44 +434,205 @@ export class ArbitrationService {
     }
   }
 
+  /**
+   * Arbiters without a conflict of interest and with room for the dispute,
+   * best first by past agreement with final decisions, specialization in the
+   * category and current workload.
+   */
   private async findQualifiedArbiters(
+    disputeId: string,
     category: DisputeCategory,
     count: number
-  ): Promise<any[]> {
-    
-    // Find users with arbiter permissions who are active and qualified
+  ): Promise<ArbiterCandidate[]> {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { appealOfId: true }
+    });
+    const excluded = await this.getExcludedUserIds(disputeId);
+
     const arbiters = await this.prisma.user.findMany({
       where: {
-        role: { in: ['MODERATOR', 'ADMIN'] },
-        isActive: true,
-        isBanned: false
+        ...ELIGIBLE_ARBITER,
+        id: { notIn: Array.from(excluded) }
       },
       select: {
         id: true,
-        username: true,
         role: true,
-        // Could add specialization fields here
+        arbiterProfile: {
+          select: { specializations: true, maxOpenDisputes: true }
+        }
+      }
+    });
+
+    if (arbiters.length === 0) return [];
+
+    const arbiterIds = arbiters.map(arbiter => arbiter.id);
+
+    const openVotes = await this.prisma.arbitrationVote.groupBy({
+      by: ['arbiterId'],
+      where: {
+        arbiterId: { in: arbiterIds },
+        expiredAt: null,
+        dispute: { status: { in: OPEN_DISPUTE_STATUSES } }
+      },
+      _count: { _all: true }
+    });
+
+    const decidedVotes = await this.prisma.arbitrationVote.findMany({
+      where: {
+        arbiterId: { in: arbiterIds },
+        votedAt: { not: null },
+        dispute: { status: 'RESOLVED', finalDecision: { not: null } }
+      },
+      select: {
+        arbiterId: true,
+        vote: true,
+        dispute: {
+          select: {
+            finalDecision: true,
+            appeal: { select: { status: true, finalDecision: true } }
+          }
+        }
+      }
+    });
+
+    const candidates: ArbiterCandidate[] = arbiters.map(arbiter => {
+      const history = decidedVotes.filter(vote => vote.arbiterId === arbiter.id);
+
+      return {
+        id: arbiter.id,
+        role: arbiter.role,
+        openDisputes: openVotes.find(open => open.arbiterId === arbiter.id)?._count._all ?? 0,
+        capacity: arbiter.arbiterProfile?.maxOpenDisputes ?? DEFAULT_ARBITER_CAPACITY,
+        specialized: arbiter.arbiterProfile?.specializations.includes(category) ?? false,
+        decidedVotes: history.length,
+        agreedVotes: history.filter(vote => vote.vote === ArbitrationUtils.effectiveDecision(vote.dispute)).length
+      };
+    });
+
+    const eligible = dispute?.appealOfId
+      ? candidates.filter(candidate => ArbitrationUtils.isSenior(candidate))
+      : candidates;
+
+    return ArbitrationUtils.pick(eligible, count);
+  }
+
+  // Probation arbiters vote alongside the panel without their votes counting
+  private async assignShadowArbiters(disputeId: string, priority: DisputePriority): Promise<void> {
+    const excluded = await this.getExcludedUserIds(disputeId);
+
+    const shadows = await this.prisma.user.findMany({
+      where: {
+        isActive: true,
+        isBanned: false,
+        arbiterProfile: { status: 'PROBATION' },
+        id: { notIn: Array.from(excluded) }
       },
-      take: count * 2 // Get more than needed for selection
+      select: { id: true },
+      // Those with the least shadow experience first, so everyone progresses
+      orderBy: { arbiterProfile: { shadowVotes: 'asc' } },
+      take: SHADOWS_PER_DISPUTE
+    });
+
+    for (const shadow of shadows) {
+      const vote = await this.prisma.arbitrationVote.create({
+        data: {
+          disputeId,
+          arbiterId: shadow.id,
+          vote: 'ESCALATE',
+          confidence: 0.5,
+          dueAt: ArbitrationUtils.voteDeadline(priority),
+          isShadow: true
+        }
+      });
+
+      await this.notificationService?.notifyArbiterAssigned(disputeId, shadow.id, vote.dueAt!);
+    }
+  }
+
+  /**
+   * Conflicted users plus anyone assigned before, including arbiters replaced
+   * for missing the deadline. An appeal also leaves out the original panel.
+   */
+  private async getExcludedUserIds(disputeId: string): Promise<Set<string>> {
+    const excluded = await this.getConflictedUserIds(disputeId);
+
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { appealOfId: true }
+    });
+
+    const assigned = await this.prisma.arbitrationVote.findMany({
+      where: { disputeId: { in: [disputeId, ...(dispute?.appealOfId ? [dispute.appealOfId] : [])] } },
+      select: { arbiterId: true }
     });
+    assigned.forEach(vote => excluded.add(vote.arbiterId));
 
-    // Filter by specialization and availability
-    const qualified = arbiters.filter(arbiter => {
-      // Check if arbiter has capacity (not too many active disputes)
-      return true; // Simplified for now
+    return excluded;
+  }
+
+  /**
+   * Users who can't judge the dispute: its parties, the tournament's
+   * organizer and players, and anyone sharing a team with a party.
+   */
+  private async getConflictedUserIds(disputeId: string): Promise<Set<string>> {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: {
+        tournament: {
+          select: {
+            organizerId: true,
+            participants: { select: { userId: true, teamId: true } }
+          }
+        },
+        match: {
+          select: {
+            participants: { select: { userId: true, teamId: true } }
+          }
+        }
+      }
     });
 
-    // Sort by qualification score (experience, rating, etc.)
-    qualified.sort((a, b) => {
-      // Prioritize admins over moderators
-      if (a.role === 'ADMIN' && b.role !== 'ADMIN') return -1;
-      if (b.role === 'ADMIN' && a.role !== 'ADMIN') return 1;
-      
-      // Could add more sophisticated scoring here
-      return 0;
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+
+    const conflicted = new Set<string>([dispute.reportedBy]);
+    const teamIds = new Set<string>();
+
+    if (dispute.tournament) {
+      conflicted.add(dispute.tournament.organizerId);
+    }
+
+    const entrants = [
+      ...(dispute.tournament?.participants || []),
+      ...(dispute.match?.participants || [])
+    ];
+
+    for (const entrant of entrants) {
+      if (entrant.userId) conflicted.add(entrant.userId);
+      if (entrant.teamId) teamIds.add(entrant.teamId);
+    }
+
+    // Teams the individual parties play for, besides the teams that entered
+    const parties = [dispute.reportedBy, ...(dispute.match?.participants || []).map(p => p.userId)]
+      .filter((userId): userId is string => !!userId);
+
+    const partyTeams = await this.prisma.teamMember.findMany({
+      where: { userId: { in: parties }, isActive: true },
+      select: { teamId: true }
     });
+    partyTeams.forEach(membership => teamIds.add(membership.teamId));
+
+    if (teamIds.size > 0) {
+      const members = await this.prisma.teamMember.findMany({
+        where: { teamId: { in: Array.from(teamIds) }, isActive: true },
+        select: { userId: true }
+      });
+      members.forEach(member => conflicted.add(member.userId));
+    }
 
-    return qualified.slice(0, count);
+    return conflicted;
   }
 
   // ===== VOTING SYSTEM =====
@@ -346,10 +655,19 @@ export class ArbitrationService {
       }
     });
 
-    if (!existingVote) {
+    if (!existingVote || existingVote.expiredAt) {
       throw new Error('Arbiter not assigned to this dispute');
     }
 
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { status: true }
+    });
+
+    if (!dispute || !OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new Error('Dispute is no longer open for voting');
+    }
+
     // Update vote
     await this.prisma.arbitrationVote.update({
       where: {
@@ -361,7 +679,8 @@ export class ArbitrationService {
       data: {
         vote,
         reasoning,
-        confidence: Math.max(0.1, Math.min(1.0, confidence))
+        confidence: Math.max(0.1, Math.min(1.0, confidence)),
+        votedAt: new Date()
       }
     });
 
@@ -371,7 +690,7 @@ export class ArbitrationService {
 
   private async checkConsensus(disputeId: string): Promise<void> {
     const votes = await this.prisma.arbitrationVote.findMany({
-      where: { disputeId },
+      where: { disputeId, expiredAt: null, isShadow: false },
       include: {
         arbiter: {
           select: { username: true, role: true }
@@ -379,20 +698,21 @@ export class ArbitrationService {
       }
     });
 
-    // Check if all arbiters have voted (excluding initial ESCALATE votes)
-    const realVotes = votes.filter(v => v.vote !== 'ESCALATE');
+    // Check if all current arbiters have voted; placeholders have no votedAt
+    const realVotes = votes.filter(v => v.votedAt);
     const totalArbiters = votes.length;
 
-    if (realVotes.length < totalArbiters) {
+    if (totalArbiters === 0 || realVotes.length < totalArbiters) {
       return; // Not all votes are in yet
     }
 
     // Calculate consensus
     const consensus = this.calculateConsensus(realVotes);
     
-    // If consensus reached, resolve dispute
+    // If consensus reached, resolve dispute in the name of the deciding vote
     if (consensus.consensusLevel >= 0.6) { // 60% consensus threshold
-      await this.resolveDispute(disputeId, consensus);
+      const decidingVote = realVotes.reduce((last, v) => v.votedAt! > last.votedAt! ? v : last);
+      await this.resolveDispute(disputeId, consensus, decidingVote.arbiterId);
     } else {
       // Escalate to higher authority if no consensus
       await this.escalateDispute(disputeId, 'No consensus reached among arbiters');
@@ -458,7 +778,8 @@ export class ArbitrationService {
 
   private async resolveDispute(
     disputeId: string,
-    consensus: ArbitrationConsensus
+    consensus: ArbitrationConsensus,
+    resolvedBy: string
   ): Promise<void> {
     
     const dispute = await this.prisma.dispute.findUnique({
@@ -479,12 +800,25 @@ export class ArbitrationService {
       data: {
         status: 'RESOLVED',
         resolvedAt: new Date(),
-        resolution: consensus.reasoning
+        resolution: consensus.reasoning,
+        finalDecision: consensus.finalDecision
       }
     });
 
-    // Apply resolution actions
-    await this.applyResolution(dispute, consensus.finalDecision);
+    // Apply resolution actions; an appeal acts on the dispute it contests
+    if (dispute.appealOfId) {
+      await this.resolveAppeal(dispute, consensus.finalDecision, resolvedBy);
+    } else {
+      await this.applyResolution(dispute, consensus.finalDecision, resolvedBy);
+    }
+
+    // A result that stands was held back from rating while disputed
+    if (dispute.matchId) {
+      await this.bracketService?.rateMatch(dispute.matchId);
+    }
+
+    // An appeal's outcome also re-scores the panel it reviewed
+    await this.refreshReputation([disputeId, ...(dispute.appealOfId ? [dispute.appealOfId] : [])]);
 
     // Notify relevant parties
     await this.notifyResolution(disputeId, consensus);
@@ -492,19 +826,24 @@ export class ArbitrationService {
 
   private async applyResolution(
     dispute: any,
-    decision: ArbitrationDecision
+    decision: ArbitrationDecision,
+    resolvedBy: string
   ): Promise<void> {
     
     switch (decision) {
       case 'APPROVE_ORIGINAL':
-        // Keep original result, no action needed
-        console.log(`Dispute ${dispute.id}: Original result upheld`);
+        // Keep original result; conflicting reports confirm the first one
+        if (!await this.confirmReportedResult(dispute, 0)) {
+          console.log(`Dispute ${dispute.id}: Original result upheld`);
+        }
         break;
 
       case 'APPROVE_DISPUTE':
         // Reverse result if this was a score dispute
-        if (dispute.matchId && dispute.category === 'WRONG_RESULT') {
-          await this.reverseMatchResult(dispute.matchId);
+        if (dispute.matchId && dispute.category === 'WRONG_RESULT' &&
+            !await this.confirmReportedResult(dispute, 1) &&
+            !await this.reverseMatchResult(dispute.matchId, resolvedBy)) {
+          await this.escalateDispute(dispute.id, 'The disputed result has already been built upon');
         }
         break;
 
@@ -529,33 +868,89 @@ export class ArbitrationService {
     }
   }
 
-  private async reverseMatchResult(matchId: string): Promise<void> {
+  // Disputes opened from conflicting reports list both reports as evidence,
+  // original first; confirming one completes the match it was held back on
+  private async confirmReportedResult(dispute: any, index: number): Promise<boolean> {
+    const reports = (Array.isArray(dispute.evidence) ? dispute.evidence : [])
+      .filter((item: any) => item?.type === 'result_report');
+
+    if (!dispute.matchId || reports.length < 2) {
+      return false;
+    }
+
+    await this.prisma.matchResult.update({
+      where: { id: reports[index].resultId },
+      data: {
+        status: 'VALIDATED',
+        validatedAt: new Date(),
+        validatedBy: 'ARBITRATION_SYSTEM'
+      }
+    });
+
+    // The other report may have been confirmed before an appeal
+    await this.prisma.matchResult.updateMany({
+      where: {
+        id: { in: reports.filter((_: any, i: number) => i !== index).map((report: any) => report.resultId) }
+      },
+      data: { status: 'REJECTED' }
+    });
+
+    await this.bracketService?.processValidatedResult(dispute.matchId);
+
+    return true;
+  }
+
+  // Swap the validated score in the name of the arbiter who decided it. Refused,
+  // leaving the result in place, once the bracket has moved on from the match.
+  private async reverseMatchResult(matchId: string, reversedBy: string): Promise<boolean> {
     // Find current validated result
     const currentResult = await this.prisma.matchResult.findFirst({
-      where: { matchId, status: 'VALIDATED' },
-      orderBy: { submittedAt: 'desc' }
+      where: { matchId, status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+      orderBy: { submittedAt: 'desc' },
+      include: { games: { orderBy: { gameNumber: 'asc' } } }
     });
 
-    if (currentResult) {
-      // Create new result with reversed scores
-      await this.prisma.matchResult.create({
-        data: {
-          matchId,
-          submittedBy: 'SYSTEM_ARBITRATION',
-          player1Score: currentResult.player2Score,
-          player2Score: currentResult.player1Score,
-          status: 'VALIDATED',
-          validatedAt: new Date(),
-          validatedBy: 'ARBITRATION_SYSTEM'
-        }
-      });
+    if (!currentResult) return true;
 
-      // Mark old result as disputed
-      await this.prisma.matchResult.update({
-        where: { id: currentResult.id },
-        data: { status: 'DISPUTED' }
-      });
+    // Undo the old outcome first so the loser isn't left eliminated
+    if (this.bracketService && !await this.bracketService.reopenMatch(matchId)) {
+      return false;
     }
+
+    // Create new result with reversed scores
+    await this.prisma.matchResult.create({
+      data: {
+        matchId,
+        submittedBy: reversedBy,
+        player1Score: currentResult.player2Score,
+        player2Score: currentResult.player1Score,
+        player1ExtraTimeScore: currentResult.player2ExtraTimeScore,
+        player2ExtraTimeScore: currentResult.player1ExtraTimeScore,
+        player1Penalties: currentResult.player2Penalties,
+        player2Penalties: currentResult.player1Penalties,
+        status: 'VALIDATED',
+        validatedAt: new Date(),
+        validatedBy: 'ARBITRATION_SYSTEM',
+        games: {
+          create: currentResult.games.map(game => ({
+            gameNumber: game.gameNumber,
+            player1Score: game.player2Score,
+            player2Score: game.player1Score
+          }))
+        }
+      }
+    });
+
+    // Mark old result as disputed
+    await this.prisma.matchResult.update({
+      where: { id: currentResult.id },
+      data: { status: 'DISPUTED' }
+    });
+
+    // Complete the match, and advance the bracket, on the reversed result
+    await this.bracketService?.processValidatedResult(matchId);
+
+    return true;
   }
 
   private async scheduleRematch(matchId: string): Promise<void> {
@@ -590,27 +985,156 @@ export class ArbitrationService {
     });
 
     // Notify admins about escalation
-    console.log(`Dispute ${disputeId} escalated: ${reason}`);
+    await this.notificationService?.notifyDisputeEscalated(disputeId, reason);
   }
 
-  // ===== NOTIFICATIONS =====
+  // ===== SLA ENFORCEMENT =====
 
-  private async notifyArbiters(disputeId: string): Promise<void> {
-    // Send notifications to assigned arbiters
-    const votes = await this.prisma.arbitrationVote.findMany({
-      where: { disputeId },
+  /**
+   * Escalate disputes past their resolution deadline, remind arbiters halfway
+   * through their voting window and replace those who miss it.
+   */
+  private async runSlaSweep(): Promise<void> {
+    const now = new Date();
+
+    const overdue = await this.prisma.dispute.findMany({
+      where: { status: { in: OPEN_DISPUTE_STATUSES }, dueAt: { lt: now } },
+      select: { id: true }
+    });
+
+    for (const dispute of overdue) {
+      await this.escalateDispute(dispute.id, 'Resolution SLA exceeded');
+    }
+
+    const pending = await this.prisma.arbitrationVote.findMany({
+      where: {
+        votedAt: null,
+        expiredAt: null,
+        dueAt: { not: null },
+        dispute: { status: { in: OPEN_DISPUTE_STATUSES } }
+      },
       include: {
-        arbiter: { select: { id: true, email: true } },
-        dispute: { select: { category: true, description: true } }
+        dispute: { select: { category: true, priority: true } }
       }
     });
 
-    for (const vote of votes) {
-      // Send email/push notification to arbiter
-      console.log(`Notifying arbiter ${vote.arbiter.id} about dispute ${disputeId}`);
+    const reassigned = new Set<string>();
+
+    for (const vote of pending) {
+      if (vote.dueAt! < now) {
+        await this.prisma.arbitrationVote.update({
+          where: { id: vote.id },
+          data: { expiredAt: now }
+        });
+
+        // Nothing waits on a shadow vote, so it just lapses
+        if (vote.isShadow) continue;
+
+        await this.notificationService?.notifyArbiterReplaced(vote.disputeId, vote.arbiterId);
+
+        await this.assignArbiters(vote.disputeId, vote.dispute.category, vote.dispute.priority, 1);
+        reassigned.add(vote.disputeId);
+      } else if (!vote.remindedAt && ArbitrationUtils.reminderDue(vote.assignedAt, vote.dueAt!, now)) {
+        await this.prisma.arbitrationVote.update({
+          where: { id: vote.id },
+          data: { remindedAt: now }
+        });
+        await this.notificationService?.notifyArbitrationReminder(vote.disputeId, vote.arbiterId, vote.dueAt!);
+      }
+    }
+
+    // Without a replacement, the votes already cast may now be all there is
+    for (const disputeId of reassigned) {
+      await this.checkConsensus(disputeId);
+    }
+  }
+
+  private async scheduleSlaSweep(): Promise<void> {
+    if (!this.arbitrationQueue) return;
+
+    await this.arbitrationQueue.add(
+      {},
+      {
+        jobId: 'arbitration-sla',
+        repeat: { every: SLA_SWEEP_INTERVAL },
+        removeOnComplete: true
+      }
+    );
+  }
+
+  // ===== REPUTATION =====
+
+  /**
+   * Recompute the record of everyone who voted on the given disputes, and
+   * take probation arbiters off probation once their shadow votes are
+   * accurate enough.
+   */
+  private async refreshReputation(disputeIds: string[]): Promise<void> {
+    const voters = await this.prisma.arbitrationVote.findMany({
+      where: { disputeId: { in: disputeIds }, votedAt: { not: null } },
+      select: { arbiterId: true },
+      distinct: ['arbiterId']
+    });
+
+    for (const { arbiterId } of voters) {
+      const votes = await this.prisma.arbitrationVote.findMany({
+        where: { arbiterId, votedAt: { not: null } },
+        select: {
+          vote: true,
+          isShadow: true,
+          assignedAt: true,
+          votedAt: true,
+          dispute: {
+            select: {
+              status: true,
+              finalDecision: true,
+              appeal: { select: { status: true, finalDecision: true } }
+            }
+          }
+        }
+      });
+
+      const decided = votes
+        .map(vote => ({ ...vote, outcome: ArbitrationUtils.effectiveDecision(vote.dispute) }))
+        .filter(vote => vote.dispute.status === 'RESOLVED' && vote.outcome);
+      const agreed = decided.filter(vote => vote.vote === vote.outcome);
+      const shadow = decided.filter(vote => vote.isShadow);
+
+      const averageResponseMinutes = votes.length > 0
+        ? votes.reduce((sum, vote) => sum + (vote.votedAt!.getTime() - vote.assignedAt.getTime()), 0) /
+          votes.length / (60 * 1000)
+        : null;
+
+      const record = {
+        decidedVotes: decided.length,
+        agreedVotes: agreed.length,
+        accuracy: decided.length > 0 ? agreed.length / decided.length : null,
+        shadowVotes: shadow.length,
+        shadowAgreed: shadow.filter(vote => vote.vote === vote.outcome).length,
+        averageResponseMinutes,
+        rating: ArbitrationUtils.reputation(agreed.length, decided.length, averageResponseMinutes),
+        reputationUpdatedAt: new Date()
+      };
+
+      const profile = await this.prisma.arbiterProfile.upsert({
+        where: { userId: arbiterId },
+        create: { userId: arbiterId, ...record },
+        update: record
+      });
+
+      if (profile.status === 'PROBATION' &&
+          ArbitrationUtils.passesProbation(profile.shadowAgreed, profile.shadowVotes)) {
+        await this.prisma.arbiterProfile.update({
+          where: { id: profile.id },
+          data: { status: 'ACTIVE', probationEndedAt: new Date() }
+        });
+        await this.notificationService?.notifyArbiterStatus(arbiterId, 'ACTIVE');
+      }
     }
   }
 
+  // ===== NOTIFICATIONS =====
+
   private async notifyResolution(
     disputeId: string,
     consensus: ArbitrationConsensus
@@ -641,7 +1165,19 @@ export class ArbitrationService {
           include: {
             arbiter: { select: { username: true, role: true } }
           }
-        }
+        },
+        // An appeal shows the panel and votes it is reviewing
+        appealOf: {
+          include: {
+            votes: {
+              where: { votedAt: { not: null } },
+              include: {
+                arbiter: { select: { username: true, role: true } }
+              }
+            }
+          }
+        },
+        appeal: { select: { id: true, status: true, finalDecision: true } }
       }
     });
   }
@@ -663,15 +1199,166 @@ export class ArbitrationService {
     });
   }
 
+  async applyForArbiter(
+    userId: string,
+    data: { experience: string; motivation: string; availability: string; languages: string[] }
+  ) {
+    const existing = await this.prisma.arbiterProfile.findUnique({ where: { userId } });
+
+    // Removed arbiters may apply again; anyone else already has a record
+    if (existing && existing.status !== 'REMOVED') {
+      throw new Error(existing.status === 'PENDING'
+        ? 'Your application is already under review'
+        : 'You already have an arbiter record');
+    }
+
+    const application = {
+      ...data,
+      status: 'PENDING' as ArbiterStatus,
+      appliedAt: new Date(),
+      reviewedAt: null,
+      reviewedBy: null,
+      statusReason: null
+    };
+
+    return await this.prisma.arbiterProfile.upsert({
+      where: { userId },
+      create: { userId, ...application },
+      update: application
+    });
+  }
+
+  /**
+   * Approving an application puts the arbiter on probation; admins may also
+   * activate, suspend or remove arbiters directly.
+   */
+  async setArbiterStatus(userId: string, status: ArbiterStatus, adminId: string, reason?: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, arbiterProfile: { select: { id: true } } }
+    });
+
+    if (!user || (!user.arbiterProfile && !['MODERATOR', 'ADMIN'].includes(user.role))) {
+      throw new Error('User is not an arbiter');
+    }
+
+    const review = {
+      status,
+      statusReason: reason ?? null,
+      reviewedAt: new Date(),
+      reviewedBy: adminId,
+      ...(status === 'ACTIVE' && { probationEndedAt: new Date() })
+    };
+
+    const profile = await this.prisma.arbiterProfile.upsert({
+      where: { userId },
+      create: { userId, ...review },
+      update: review
+    });
+
+    await this.notificationService?.notifyArbiterStatus(userId, status, reason);
+
+    return profile;
+  }
+
+  async getArbiters(filters: { status?: ArbiterStatus; limit: number; offset: number }) {
+    return await this.prisma.arbiterProfile.findMany({
+      where: { status: filters.status },
+      include: {
+        user: { select: { id: true, username: true, displayName: true, role: true, lastLoginAt: true } }
+      },
+      orderBy: [{ status: 'asc' }, { rating: { sort: 'desc', nulls: 'last' } }],
+      take: filters.limit,
+      skip: filters.offset
+    });
+  }
+
+  async getArbiterActivity(userId: string) {
+    const profile = await this.prisma.arbiterProfile.findUnique({ where: { userId } });
+
+    const monthStart = new Date();
+    monthStart.setUTCDate(1);
+    monthStart.setUTCHours(0, 0, 0, 0);
+
+    const [totalVotes, votesThisMonth, pendingDisputes, recentVotes] = await Promise.all([
+      this.prisma.arbitrationVote.count({ where: { arbiterId: userId, votedAt: { not: null } } }),
+      this.prisma.arbitrationVote.count({ where: { arbiterId: userId, votedAt: { gte: monthStart } } }),
+      this.prisma.arbitrationVote.count({
+        where: {
+          arbiterId: userId,
+          votedAt: null,
+          expiredAt: null,
+          dispute: { status: { in: OPEN_DISPUTE_STATUSES } }
+        }
+      }),
+      this.prisma.arbitrationVote.findMany({
+        where: { arbiterId: userId, votedAt: { not: null } },
+        include: {
+          dispute: { select: { id: true, category: true, status: true, finalDecision: true } }
+        },
+        orderBy: { votedAt: 'desc' },
+        take: 10
+      })
+    ]);
+
+    return {
+      status: profile?.status ?? null,
+      accuracy: profile?.accuracy ?? null,
+      reputation: profile?.rating ?? null,
+      averageResponseMinutes: profile?.averageResponseMinutes ?? null,
+      specializations: profile?.specializations ?? [],
+      probation: profile?.status === 'PROBATION'
+        ? { shadowVotes: profile.shadowVotes, shadowAgreed: profile.shadowAgreed }
+        : null,
+      totalVotes,
+      votesThisMonth,
+      pendingDisputes,
+      recentVotes
+    };
+  }
+
+  async updateArbiterProfile(
+    userId: string,
+    data: { specializations?: DisputeCategory[]; maxOpenDisputes?: number }
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, arbiterProfile: { select: { id: true } } }
+    });
+
+    if (!user || (!user.arbiterProfile && !['MODERATOR', 'ADMIN'].includes(user.role))) {
+      throw new Error('User is not an arbiter');
+    }
+
+    return await this.prisma.arbiterProfile.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data
+    });
+  }
+
   async getArbitrationPool(): Promise<ArbitrationPool> {
     const arbiters = await this.prisma.user.findMany({
-      where: {
-        role: { in: ['MODERATOR', 'ADMIN'] },
-        isActive: true,
-        isBanned: false
-      }
+      where: ELIGIBLE_ARBITER,
+      include: { arbiterProfile: true }
     });
 
+    const ratings = arbiters
+      .map(arbiter => arbiter.arbiterProfile?.rating)
+      .filter((rating): rating is number => rating !== null && rating !== undefined);
+
+    // Arbiters specializing in each category
+    const specializations: { [key: string]: number } = {};
+    for (const arbiter of arbiters) {
+      for (const category of arbiter.arbiterProfile?.specializations || []) {
+        specializations[category] = (specializations[category] || 0) + 1;
+      }
+    }
+    const capacity = arbiters.reduce(
+      (sum, arbiter) => sum + (arbiter.arbiterProfile?.maxOpenDisputes ?? DEFAULT_ARBITER_CAPACITY),
+      0
+    );
+
     const activeDisputes = await this.prisma.dispute.count({
       where: { status: { in: ['OPEN', 'UNDER_REVIEW'] } }
     });
@@ -681,14 +1368,11 @@ export class ArbitrationService {
       activeArbiters: arbiters.filter(a => a.lastLoginAt && 
         new Date().getTime() - new Date(a.lastLoginAt).getTime() < 7 * 24 * 60 * 60 * 1000
       ).length,
-      averageRating: 4.2, // Would calculate from actual ratings
-      specializations: {
-        'Technical Issues': 5,
-        'Rule Violations': 8,
-        'Score Disputes': 12,
-        'Cheating': 3
-      },
-      availableSlots: Math.max(0, arbiters.length * 3 - activeDisputes) // Each arbiter can handle ~3 disputes
+      averageRating: ratings.length > 0
+        ? Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length * 10) / 10
+        : 0,
+      specializations,
+      availableSlots: Math.max(0, capacity - activeDisputes)
     };
   }
 
@@ -698,6 +1382,8 @@ export class ArbitrationService {
     averageResolutionTime: number;
     consensusRate: number;
     topCategories: { category: string; count: number }[];
+    overdueDisputes: number;
+    overdueVotes: number;
   }> {
     const disputes = await this.prisma.dispute.findMany({
       select: {
@@ -728,12 +1414,28 @@ export class ArbitrationService {
       .sort((a, b) => b.count - a.count)
       .slice(0, 5);
 
+    // Past their deadline and not yet picked up by the SLA sweep
+    const now = new Date();
+    const overdueDisputes = await this.prisma.dispute.count({
+      where: { status: { in: OPEN_DISPUTE_STATUSES }, dueAt: { lt: now } }
+    });
+    const overdueVotes = await this.prisma.arbitrationVote.count({
+      where: {
+        votedAt: null,
+        expiredAt: null,
+        dueAt: { lt: now },
+        dispute: { status: { in: OPEN_DISPUTE_STATUSES } }
+      }
+    });
+
     return {
       totalDisputes: disputes.length,
       resolvedDisputes: resolved.length,
       averageResolutionTime,
       consensusRate: 0.85, // Would calculate from actual consensus data
-      topCategories
+      topCategories,
+      overdueDisputes,
+      overdueVotes
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,880 @@
+import { PrismaClient, BracketType, MatchStatus } from '@prisma/client';
+import { NotificationService } from './NotificationService';
+import { RatingService } from './RatingService';
+import { BracketUtils } from '../utils/bracket';
+import { SwissUtils, SwissStanding } from '../utils/swiss';
+import { LeagueUtils, LeagueStanding } from '../utils/league';
+import { SeriesUtils } from '../utils/series';
+import { MatchResultUtils, ResultScores } from '../utils/matchResult';
+
+interface Slot {
+  userId: string | null;
+  teamId: string | null;
+  side: number;
+}
+
+interface MatchOutcome {
+  winner: Slot;
+  loser: Slot;
+}
+
+export const ELIMINATION_BRACKETS: BracketType[] = [
+  'SINGLE_ELIMINATION',
+  'DOUBLE_ELIMINATION_WINNERS',
+  'DOUBLE_ELIMINATION_LOSERS'
+];
+
+const TABLE_BRACKETS: BracketType[] = ['ROUND_ROBIN', 'LEAGUE'];
+
+// Matches that no longer hold up the rest of their round
+const CLOSED_STATUSES: MatchStatus[] = ['COMPLETED', 'WALKOVER', 'CANCELLED'];
+
+export class BracketService {
+  constructor(
+    private prisma: PrismaClient,
+    private notificationService?: NotificationService,
+    private ratingService?: RatingService
+  ) {}
+
+  // ===== RESULT PROCESSING =====
+
+  // Walkovers progress like any other result but keep their own status, and
+  // aren't rated
+  async processValidatedResult(matchId: string, status: 'COMPLETED' | 'WALKOVER' = 'COMPLETED') {
+    const processed = await this.progressResult(matchId, status);
+
+    if (status === 'COMPLETED') {
+      await this.ratingService?.applyMatchResult(matchId);
+    }
+
+    return processed;
+  }
+
+  // Ratings skip a match while it is disputed, so one whose result stood is
+  // rated once the dispute is settled. Already-rated matches are left alone.
+  async rateMatch(matchId: string) {
+    return await this.ratingService?.applyMatchResult(matchId) ?? null;
+  }
+
+  /**
+   * Undo a completed match's outcome so a corrected result can be processed
+   * again. Refused once a match it fed into has started, the tournament is
+   * over, or the result already counts towards table or Swiss standings.
+   */
+  async reopenMatch(matchId: string): Promise<boolean> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        bracket: true,
+        tournament: { select: { status: true } },
+        participants: true,
+        nextMatch: { select: { status: true } },
+        loserNextMatch: { select: { status: true } }
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    // Nothing progressed yet
+    if (match.status !== 'COMPLETED' && match.status !== 'WALKOVER') return true;
+
+    if (match.tournament?.status === 'COMPLETED') return false;
+    if (match.bracket && !ELIMINATION_BRACKETS.includes(match.bracket.type)) return false;
+
+    const started = [match.nextMatch, match.loserNextMatch]
+      .some(next => next && next.status !== 'PENDING' && next.status !== 'READY');
+    if (started) return false;
+
+    await this.ratingService?.revertMatch(matchId);
+
+    // Whoever lost may have been knocked out; re-processing eliminates the right side
+    if (match.tournamentId) {
+      for (const participant of match.participants) {
+        const slot = participant.teamId ? { teamId: participant.teamId } : { userId: participant.userId };
+
+        await this.prisma.tournamentParticipant.updateMany({
+          where: { tournamentId: match.tournamentId, ...slot, status: 'ELIMINATED', checkedInAt: { not: null } },
+          data: { status: 'CHECKED_IN', finalPlacement: null }
+        });
+        await this.prisma.tournamentParticipant.updateMany({
+          where: { tournamentId: match.tournamentId, ...slot, status: 'ELIMINATED', checkedInAt: null },
+          data: { status: 'REGISTERED', finalPlacement: null }
+        });
+      }
+    }
+
+    await this.prisma.match.update({
+      where: { id: matchId },
+      data: { status: 'WAITING_RESULTS', winnerId: null, completedAt: null }
+    });
+
+    return true;
+  }
+
+  private async progressResult(matchId: string, status: 'COMPLETED' | 'WALKOVER') {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        bracket: true,
+        participants: true,
+        results: {
+          where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+          orderBy: { submittedAt: 'desc' },
+          take: 1,
+          include: { games: { orderBy: { gameNumber: 'asc' } } }
+        }
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    const result = match.results[0];
+    if (!result) {
+      throw new Error('Match has no validated result');
+    }
+
+    const outcome = this.determineOutcome(match.participants, result, match);
+
+    if (match.bracket?.type === 'SWISS') {
+      return await this.completeSwissMatch(match, outcome, status);
+    }
+
+    const isElimination = !!match.bracket && ELIMINATION_BRACKETS.includes(match.bracket.type);
+
+    if (!outcome && isElimination) {
+      throw new Error('Elimination matches cannot end in a draw');
+    }
+
+    const completedMatch = await this.prisma.match.update({
+      where: { id: matchId },
+      data: {
+        status,
+        completedAt: match.completedAt || new Date(),
+        winnerId: outcome ? this.slotId(outcome.winner) : null
+      }
+    });
+
+    if (match.bracket && TABLE_BRACKETS.includes(match.bracket.type)) {
+      const tournamentCompleted = await this.progressTable(match);
+      await this.refreshStructures(match.tournamentId!);
+      return { match: completedMatch, advanced: false, tournamentCompleted };
+    }
+
+    if (!outcome || !isElimination) {
+      return { match: completedMatch, advanced: false, tournamentCompleted: false };
+    }
+
+    const tournamentCompleted = match.bracket!.type === 'SINGLE_ELIMINATION'
+      ? await this.progressSingleElimination(match, outcome)
+      : await this.progressDoubleElimination(match, outcome);
+
+    await this.updateCurrentRound(match.tournamentId!, match.bracketId!);
+    await this.refreshStructures(match.tournamentId!);
+
+    return { match: completedMatch, advanced: !tournamentCompleted, tournamentCompleted };
+  }
+
+  // ===== PROGRESSION =====
+
+  private async progressSingleElimination(match: any, outcome: MatchOutcome): Promise<boolean> {
+    if (!match.nextMatchId || !match.nextMatchSide) {
+      // No next match: this was the final
+      await this.completeTournament(match.tournamentId, outcome);
+      return true;
+    }
+
+    const totalRounds = await this.getTotalRounds(match.bracketId);
+    await this.eliminate(match.tournamentId, outcome.loser, this.placementForRound(match.round, totalRounds));
+    await this.seat(match.nextMatchId, match.nextMatchSide, outcome.winner);
+
+    return false;
+  }
+
+  private async progressDoubleElimination(match: any, outcome: MatchOutcome): Promise<boolean> {
+    if (match.matchNumber === 'GF') {
+      return await this.progressGrandFinal(match, outcome);
+    }
+
+    if (match.matchNumber === 'GF-R') {
+      await this.completeTournament(match.tournamentId, outcome);
+      return true;
+    }
+
+    if (match.nextMatchId && match.nextMatchSide) {
+      await this.seat(match.nextMatchId, match.nextMatchSide, outcome.winner);
+    }
+
+    // Winners-bracket losers drop down; a losers-bracket loss is the second one
+    if (match.loserNextMatchId && match.loserNextMatchSide) {
+      await this.seat(match.loserNextMatchId, match.loserNextMatchSide, outcome.loser);
+    } else {
+      const placement = await this.placementForLosersRound(match.bracketId, match.round);
+      await this.eliminate(match.tournamentId, outcome.loser, placement);
+    }
+
+    return false;
+  }
+
+  private async progressGrandFinal(match: any, outcome: MatchOutcome): Promise<boolean> {
+    const reset = await this.prisma.match.findFirst({
+      where: { bracketId: match.bracketId, matchNumber: 'GF-R' }
+    });
+
+    // Side 1 is the winners-bracket champion, who has not lost yet
+    if (outcome.winner.side === 1 || !reset) {
+      if (reset) {
+        await this.prisma.match.update({
+          where: { id: reset.id },
+          data: { status: 'CANCELLED' }
+        });
+      }
+
+      await this.completeTournament(match.tournamentId, outcome);
+      return true;
+    }
+
+    // Both finalists now have one loss: play the bracket reset
+    await this.seat(reset.id, 1, outcome.loser);
+    await this.seat(reset.id, 2, outcome.winner);
+
+    return false;
+  }
+
+  private async completeSwissMatch(match: any, outcome: MatchOutcome | null, status: 'COMPLETED' | 'WALKOVER') {
+    const completedMatch = await this.prisma.match.update({
+      where: { id: match.id },
+      data: {
+        status,
+        completedAt: match.completedAt || new Date(),
+        winnerId: outcome ? this.slotId(outcome.winner) : null
+      }
+    });
+
+    const tournamentCompleted = await this.progressSwiss(match);
+    const nextRound = await this.prisma.match.count({
+      where: { bracketId: match.bracketId, round: match.round + 1 }
+    });
+
+    await this.refreshStructures(match.tournamentId);
+
+    return { match: completedMatch, advanced: nextRound > 0, tournamentCompleted };
+  }
+
+  // The next Swiss round is only paired once every match of the current round
+  // is settled, since pairings depend on the complete standings
+  private async progressSwiss(match: any): Promise<boolean> {
+    const openMatches = await this.prisma.match.count({
+      where: {
+        bracketId: match.bracketId,
+        round: match.round,
+        status: { notIn: CLOSED_STATUSES }
+      }
+    });
+
+    if (openMatches > 0) return false;
+
+    // Re-validating a result in a finished round must not pair it again
+    const alreadyPaired = await this.prisma.match.count({
+      where: { bracketId: match.bracketId, round: { gt: match.round } }
+    });
+
+    if (alreadyPaired > 0) return false;
+
+    const standings = await this.getSwissStandings(match.bracketId);
+    const totalRounds = (match.bracket.structure as Record<string, any>)?.totalRounds
+      || SwissUtils.getTotalRounds(standings.length);
+
+    if (match.round >= totalRounds) {
+      await this.completeSwissTournament(match.tournamentId, standings);
+      return true;
+    }
+
+    await this.createSwissRound(match.tournamentId, match.bracketId, match.round + 1, standings);
+
+    await this.prisma.tournament.update({
+      where: { id: match.tournamentId },
+      data: { currentRound: match.round + 1 }
+    });
+
+    return false;
+  }
+
+  private async createSwissRound(
+    tournamentId: string,
+    bracketId: string,
+    round: number,
+    standings: SwissStanding[]
+  ): Promise<void> {
+    const { pairings, bye } = SwissUtils.pairRound(standings);
+
+    const bracket = await this.prisma.bracket.findUnique({ where: { id: bracketId } });
+    const series = (bracket?.structure as Record<string, any>)?.series;
+
+    for (let position = 0; position < pairings.length; position++) {
+      const match = await this.prisma.match.create({
+        data: {
+          tournamentId,
+          bracketId,
+          round,
+          position,
+          status: 'READY',
+          matchNumber: `R${round}-${position + 1}`,
+          bestOfSeries: series?.bestOfByRound?.[round] || series?.bestOf || 1,
+          seriesTiebreak: series?.seriesTiebreak || 'NONE',
+          participants: {
+            create: pairings[position].map((standing, index) => ({
+              userId: standing.userId,
+              teamId: standing.teamId,
+              side: index + 1
+            }))
+          }
+        }
+      });
+
+      await this.notificationService?.notifyMatchReady(match.id);
+    }
+
+    if (bye) {
+      await this.prisma.match.create({
+        data: {
+          tournamentId,
+          bracketId,
+          round,
+          position: pairings.length,
+          status: 'COMPLETED',
+          matchNumber: `R${round}-${pairings.length + 1}`,
+          completedAt: new Date(),
+          winnerId: bye.participantId,
+          participants: {
+            create: { userId: bye.userId, teamId: bye.teamId, side: 1 }
+          }
+        }
+      });
+    }
+  }
+
+  private async completeSwissTournament(tournamentId: string, standings: SwissStanding[]): Promise<void> {
+    for (const standing of standings) {
+      await this.prisma.tournamentParticipant.updateMany({
+        where: {
+          tournamentId,
+          ...(standing.teamId ? { teamId: standing.teamId } : { userId: standing.userId })
+        },
+        data: { finalPlacement: standing.rank }
+      });
+    }
+
+    await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        status: 'COMPLETED',
+        tournamentEnd: new Date()
+      }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      status: 'COMPLETED',
+      winnerId: standings[0]?.participantId
+    });
+  }
+
+  async getSwissStandings(bracketId: string): Promise<SwissStanding[]> {
+    const bracket = await this.prisma.bracket.findUnique({
+      where: { id: bracketId },
+      include: {
+        matches: {
+          include: {
+            participants: true,
+            results: {
+              where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+              orderBy: { submittedAt: 'desc' },
+              take: 1,
+              include: { games: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!bracket) {
+      throw new Error('Bracket not found');
+    }
+
+    const entrants = await this.prisma.tournamentParticipant.findMany({
+      where: {
+        tournamentId: bracket.tournamentId,
+        status: { notIn: ['DISQUALIFIED', 'WITHDRAWN'] }
+      },
+      orderBy: { seed: 'asc' }
+    });
+
+    return SwissUtils.computeStandings(entrants, bracket.matches);
+  }
+
+  // League and round-robin tables are final once every fixture is played,
+  // unless they are the group stage of a multi-stage tournament
+  private async progressTable(match: any): Promise<boolean> {
+    await this.updateCurrentRound(match.tournamentId, match.bracketId);
+
+    const openMatches = await this.prisma.match.count({
+      where: {
+        bracketId: match.bracketId,
+        status: { notIn: CLOSED_STATUSES }
+      }
+    });
+
+    if (openMatches > 0) return false;
+
+    const nextStage = await this.prisma.bracket.findFirst({
+      where: { tournamentId: match.tournamentId, round: { gt: match.bracket.round } },
+      orderBy: { round: 'asc' }
+    });
+
+    if (nextStage) {
+      await this.advanceGroupStage(match.tournamentId, match.bracket.round, nextStage);
+      return false;
+    }
+
+    const table = await this.getLeagueTable(match.bracketId);
+
+    for (const standing of table) {
+      await this.prisma.tournamentParticipant.updateMany({
+        where: {
+          tournamentId: match.tournamentId,
+          ...(standing.teamId ? { teamId: standing.teamId } : { userId: standing.userId })
+        },
+        data: { finalPlacement: standing.position }
+      });
+    }
+
+    await this.prisma.tournament.update({
+      where: { id: match.tournamentId },
+      data: {
+        status: 'COMPLETED',
+        tournamentEnd: new Date()
+      }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(match.tournamentId, {
+      status: 'COMPLETED',
+      winnerId: table[0]?.participantId
+    });
+
+    return true;
+  }
+
+  private async advanceGroupStage(tournamentId: string, stage: number, playoff: any): Promise<void> {
+    const groups = await this.prisma.bracket.findMany({
+      where: { tournamentId, round: stage },
+      orderBy: { position: 'asc' }
+    });
+
+    const openMatches = await this.prisma.match.count({
+      where: {
+        bracketId: { in: groups.map(g => g.id) },
+        status: { notIn: CLOSED_STATUSES }
+      }
+    });
+
+    if (openMatches > 0) return;
+
+    // Re-validating a group result must not seed the playoffs twice
+    const seated = await this.prisma.matchParticipant.count({
+      where: { match: { bracketId: playoff.id } }
+    });
+
+    if (seated > 0) return;
+
+    const config = (playoff.structure as Record<string, any>) || {};
+    const qualifiersPerGroup: number = config.qualifiersPerGroup || 2;
+    const tables: LeagueStanding[][] = [];
+
+    for (const group of groups) {
+      tables.push(await this.getLeagueTable(group.id));
+    }
+
+    // Everyone below the cut shares a placement with the other groups'
+    // participants who finished in the same position
+    const qualifierCount = tables.length * qualifiersPerGroup;
+    for (const table of tables) {
+      for (const standing of table.slice(qualifiersPerGroup)) {
+        await this.eliminate(
+          tournamentId,
+          { userId: standing.userId, teamId: standing.teamId, side: 0 },
+          qualifierCount + (standing.position - qualifiersPerGroup - 1) * tables.length + 1
+        );
+      }
+    }
+
+    const size = config.size || BracketUtils.getBracketSize(qualifierCount);
+    const slots = this.getPlayoffSlots(tables, qualifiersPerGroup, config.crossGroupPairing, size);
+
+    const openingRound = await this.prisma.match.findMany({
+      where: { bracketId: playoff.id, round: 1 },
+      orderBy: { position: 'asc' }
+    });
+
+    for (const match of openingRound) {
+      const pairing = [slots[match.position * 2], slots[match.position * 2 + 1]];
+
+      for (let i = 0; i < pairing.length; i++) {
+        if (pairing[i]) {
+          await this.seat(match.id, i + 1, { userId: pairing[i]!.userId, teamId: pairing[i]!.teamId, side: i + 1 });
+        }
+      }
+
+      // A lone qualifier has a bye into the next round
+      const present = pairing.filter(p => p !== null);
+      if (present.length === 1) {
+        const participant = { userId: present[0]!.userId, teamId: present[0]!.teamId, side: 1 };
+
+        await this.prisma.match.update({
+          where: { id: match.id },
+          data: {
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            winnerId: this.slotId(participant)
+          }
+        });
+
+        if (match.nextMatchId && match.nextMatchSide) {
+          await this.seat(match.nextMatchId, match.nextMatchSide, participant);
+        }
+      }
+    }
+
+    await this.updateCurrentRound(tournamentId, playoff.id);
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      stage: playoff.round,
+      message: 'Group stage complete, playoffs are set'
+    });
+  }
+
+  // Adjacent groups cross over (A1 v B2 and B1 v A2 land in opposite halves)
+  // when the qualifiers fill the bracket exactly; otherwise every qualifier is
+  // ranked by group finish and seeded with byes like a regular bracket
+  private getPlayoffSlots(
+    tables: LeagueStanding[][],
+    qualifiersPerGroup: number,
+    pairing: 'adjacent' | 'seeded' | undefined,
+    size: number
+  ): (LeagueStanding | null)[] {
+    const qualified = tables.map(table => table.slice(0, qualifiersPerGroup));
+
+    if (pairing !== 'seeded' && tables.length % 2 === 0 && tables.length * qualifiersPerGroup === size) {
+      const top: LeagueStanding[] = [];
+      const bottom: LeagueStanding[] = [];
+
+      for (let g = 0; g < qualified.length; g += 2) {
+        for (let k = 0; k < qualifiersPerGroup; k++) {
+          (k % 2 === 0 ? top : bottom).push(
+            qualified[g][k],
+            qualified[g + 1][qualifiersPerGroup - 1 - k]
+          );
+        }
+      }
+
+      return [...top, ...bottom];
+    }
+
+    const ranked = qualified.flat().sort(
+      (a, b) =>
+        a.position - b.position ||
+        b.points - a.points ||
+        b.goalDifference - a.goalDifference ||
+        b.goalsFor - a.goalsFor
+    );
+
+    return BracketUtils.getSeedOrder(size).map(seed => ranked[seed - 1] || null);
+  }
+
+  async getLeagueTable(bracketId: string): Promise<LeagueStanding[]> {
+    const bracket = await this.prisma.bracket.findUnique({
+      where: { id: bracketId },
+      include: {
+        matches: {
+          include: {
+            participants: true,
+            results: {
+              where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+              orderBy: { submittedAt: 'desc' },
+              take: 1,
+              include: { games: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!bracket) {
+      throw new Error('Bracket not found');
+    }
+
+    // Group brackets only table their own members
+    const members = new Set(
+      bracket.matches.flatMap(m => m.participants.map(p => p.userId || p.teamId))
+    );
+
+    const entrants = await this.prisma.tournamentParticipant.findMany({
+      where: {
+        tournamentId: bracket.tournamentId,
+        status: { notIn: ['DISQUALIFIED', 'WITHDRAWN'] }
+      },
+      orderBy: { seed: 'asc' }
+    });
+
+    return LeagueUtils.computeTable(
+      entrants.filter(e => members.has(e.userId || e.teamId)),
+      bracket.matches
+    );
+  }
+
+  private async seat(matchId: string, side: number, participant: Slot): Promise<void> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: { participants: true }
+    });
+
+    if (!match) {
+      throw new Error('Next match not found');
+    }
+
+    // Re-validating a result must not seat the same slot twice
+    const occupant = match.participants.find(p => p.side === side);
+    if (occupant) {
+      await this.prisma.matchParticipant.update({
+        where: { id: occupant.id },
+        data: { userId: participant.userId, teamId: participant.teamId }
+      });
+    } else {
+      await this.prisma.matchParticipant.create({
+        data: {
+          matchId,
+          userId: participant.userId,
+          teamId: participant.teamId,
+          side
+        }
+      });
+    }
+
+    const otherSide = side === 1 ? 2 : 1;
+    const filledSides = new Set([...match.participants.map(p => p.side), side]);
+
+    if (filledSides.has(otherSide)) {
+      if (match.status === 'PENDING') {
+        await this.prisma.match.update({
+          where: { id: matchId },
+          data: { status: 'READY' }
+        });
+
+        await this.notificationService?.notifyMatchReady(matchId);
+      }
+      return;
+    }
+
+    // Losers-bracket slots fed by a bye never receive an opponent
+    if (await this.isDeadSlot(matchId, otherSide)) {
+      await this.prisma.match.update({
+        where: { id: matchId },
+        data: {
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          winnerId: this.slotId(participant)
+        }
+      });
+
+      if (match.nextMatchId && match.nextMatchSide) {
+        await this.seat(match.nextMatchId, match.nextMatchSide, participant);
+      }
+    }
+  }
+
+  private async isDeadSlot(matchId: string, side: number): Promise<boolean> {
+    const feeder = await this.prisma.match.findFirst({
+      where: {
+        OR: [
+          { nextMatchId: matchId, nextMatchSide: side },
+          { loserNextMatchId: matchId, loserNextMatchSide: side }
+        ]
+      },
+      include: { participants: true }
+    });
+
+    if (!feeder) return false;
+
+    const isBye = feeder.status === 'COMPLETED' && feeder.participants.length === 1;
+    const isVoid = feeder.status === 'CANCELLED' && feeder.participants.length === 0;
+
+    return isVoid || (isBye && feeder.loserNextMatchId === matchId);
+  }
+
+  private async eliminate(tournamentId: string, participant: Slot, placement: number): Promise<void> {
+    await this.prisma.tournamentParticipant.updateMany({
+      where: {
+        tournamentId,
+        ...(participant.teamId ? { teamId: participant.teamId } : { userId: participant.userId })
+      },
+      data: {
+        status: 'ELIMINATED',
+        finalPlacement: placement
+      }
+    });
+  }
+
+  private async completeTournament(tournamentId: string, outcome: MatchOutcome): Promise<void> {
+    await this.eliminate(tournamentId, outcome.loser, 2);
+
+    await this.prisma.tournamentParticipant.updateMany({
+      where: {
+        tournamentId,
+        ...(outcome.winner.teamId ? { teamId: outcome.winner.teamId } : { userId: outcome.winner.userId })
+      },
+      data: { finalPlacement: 1 }
+    });
+
+    await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        status: 'COMPLETED',
+        tournamentEnd: new Date()
+      }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      status: 'COMPLETED',
+      winnerId: this.slotId(outcome.winner)
+    });
+  }
+
+  private async updateCurrentRound(tournamentId: string, bracketId: string): Promise<void> {
+    const openMatch = await this.prisma.match.findFirst({
+      where: {
+        bracketId,
+        status: { notIn: CLOSED_STATUSES }
+      },
+      orderBy: { round: 'asc' }
+    });
+
+    if (openMatch) {
+      await this.prisma.tournament.update({
+        where: { id: tournamentId },
+        data: { currentRound: openMatch.round }
+      });
+    }
+  }
+
+  async refreshStructures(tournamentId: string): Promise<void> {
+    const brackets = await this.prisma.bracket.findMany({
+      where: { tournamentId },
+      include: {
+        matches: {
+          include: {
+            participants: true,
+            results: {
+              where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+              orderBy: { submittedAt: 'desc' },
+              take: 1
+            }
+          }
+        }
+      }
+    });
+
+    for (const bracket of brackets) {
+      const existing = (bracket.structure as Record<string, any>) || {};
+
+      // Swiss rounds and league fixtures aren't a tree; their structure
+      // carries the live standings instead
+      let refreshed: Record<string, any>;
+      if (bracket.type === 'SWISS') {
+        refreshed = { standings: await this.getSwissStandings(bracket.id) };
+      } else if (TABLE_BRACKETS.includes(bracket.type)) {
+        refreshed = { table: await this.getLeagueTable(bracket.id) };
+      } else {
+        refreshed = { roots: BracketUtils.buildTree(bracket.matches) };
+      }
+
+      await this.prisma.bracket.update({
+        where: { id: bracket.id },
+        data: {
+          structure: {
+            ...existing,
+            ...refreshed
+          } as any
+        }
+      });
+    }
+  }
+
+  // ===== HELPER METHODS =====
+
+  private determineOutcome(
+    participants: Slot[],
+    result: ResultScores & { games?: { player1Score: number; player2Score: number }[] },
+    series?: { bestOfSeries: number; seriesTiebreak: any }
+  ): MatchOutcome | null {
+    let winningSide: number | null;
+
+    // Series results carry games won; the games themselves decide level ties,
+    // and a series still level after its tiebreak goes to the shootout
+    if (result.games && result.games.length > 0 && series && series.bestOfSeries > 1) {
+      winningSide = SeriesUtils.getSeriesResult(result.games, series.bestOfSeries, series.seriesTiebreak).winnerSide;
+
+      if (!winningSide && MatchResultUtils.hasPenalties(result)) {
+        winningSide = result.player1Penalties! > result.player2Penalties! ? 1 : 2;
+      }
+    } else {
+      winningSide = MatchResultUtils.resolve(result).winnerSide;
+    }
+
+    if (!winningSide) {
+      return null;
+    }
+
+    const winner = participants.find(p => p.side === winningSide);
+    const loser = participants.find(p => p.side !== winningSide);
+
+    if (!winner || !loser) {
+      throw new Error('Match is missing a participant');
+    }
+
+    return {
+      winner: { userId: winner.userId, teamId: winner.teamId, side: winner.side },
+      loser: { userId: loser.userId, teamId: loser.teamId, side: loser.side }
+    };
+  }
+
+  private slotId(slot: Slot): string | null {
+    return slot.userId || slot.teamId;
+  }
+
+  private async getTotalRounds(bracketId: string): Promise<number> {
+    const finalMatch = await this.prisma.match.findFirst({
+      where: { bracketId },
+      orderBy: { round: 'desc' }
+    });
+
+    return finalMatch?.round || 1;
+  }
+
+  // Losers of round r share the placement just below everyone still alive,
+  // e.g. semi-final losers finish 3rd, quarter-final losers 5th
+  private placementForRound(round: number, totalRounds: number): number {
+    return Math.pow(2, totalRounds - round) + 1;
+  }
+
+  // Grand finalists take 1st and 2nd, so the losers-bracket final loser is 3rd
+  // and each earlier round finishes behind everyone knocked out after it
+  private async placementForLosersRound(bracketId: string, round: number): Promise<number> {
+    const laterMatches = await this.prisma.match.count({
+      where: { bracketId, round: { gt: round } }
+    });
+
+    return 3 + laterMatches;
+  }
+}
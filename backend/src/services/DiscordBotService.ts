@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { HeadToHeadService } from './HeadToHeadService';
 
 interface DiscordBotConfig {
   token?: string;
@@ -18,7 +19,10 @@ export class DiscordBotService {
   private initialized = false;
   private activeBots: Map<string, TournamentBot> = new Map();
 
-  constructor(private prisma: PrismaClient) {
+  constructor(
+    private prisma: PrismaClient,
+    private headToHeadService?: HeadToHeadService
+  ) {
     this.config = {
       token: process.env.DISCORD_BOT_TOKEN,
       clientId: process.env.DISCORD_CLIENT_ID,
@@ -370,16 +374,28 @@ export class DiscordBotService {
       return;
     }
 
+    const fields = [];
+    for (const match of matches.slice(0, 5)) {
+      const opponent = match.participants.find(p => p.userId !== user.id);
+      const lines = [`vs ${opponent?.user?.username || 'TBD'}`, `Status: ${match.status}`];
+
+      if (opponent?.userId && this.headToHeadService) {
+        const record = await this.headToHeadService.getHeadToHead('user', user.id, opponent.userId, 0);
+        lines.push(record.played > 0
+          ? `H2H: ${record.wins}W ${record.draws}D ${record.losses}L`
+          : 'H2H: first meeting');
+      }
+
+      fields.push({
+        name: `Match ${match.matchNumber}`,
+        value: lines.join('\n'),
+        inline: true
+      });
+    }
+
     const embed = {
       title: '📅 Your Upcoming Matches',
-      fields: matches.slice(0, 5).map(match => {
-        const opponent = match.participants.find(p => p.userId !== user.id);
-        return {
-          name: `Match ${match.matchNumber}`,
-          value: `vs ${opponent?.user?.username || 'TBD'}\nStatus: ${match.status}`,
-          inline: true
-        };
-      }),
+      fields,
       color: 0xff9900
     };
 
@@ -462,7 +478,7 @@ export class DiscordBotService {
       }
     });
 
-    if (!match) return;
+    if (!match || !match.tournamentId) return;
 
     const bot = this.activeBots.get(match.tournamentId);
     if (!bot) return;
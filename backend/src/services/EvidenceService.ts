@@ -0,0 +1,189 @@
+import { PrismaClient, Evidence, EvidenceKind, DisputeStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import { StorageService, SignedUrl } from './StorageService';
+
+export interface EvidenceUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname?: string;
+}
+
+export const SCREENSHOT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+export const EVIDENCE_TYPES = [...SCREENSHOT_TYPES, ...VIDEO_TYPES];
+
+export const MAX_SCREENSHOT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+
+// New uploads to a match join its dispute while arbiters are still deciding
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'UNDER_REVIEW', 'ESCALATED'];
+
+const STORAGE_PREFIX = 'evidence';
+
+export class EvidenceService {
+  constructor(
+    private prisma: PrismaClient,
+    private storageService: StorageService
+  ) {}
+
+  // ===== UPLOADS =====
+
+  /**
+   * Store a screenshot or clip from one of the match's participants. The same
+   * file uploaded to the same match again returns the existing evidence.
+   */
+  async upload(matchId: string, userId: string, file: EvidenceUpload) {
+    const kind = this.kindFor(file.mimetype);
+    const maxSize = kind === 'VIDEO' ? MAX_VIDEO_SIZE : MAX_SCREENSHOT_SIZE;
+
+    if (file.buffer.length > maxSize) {
+      throw new Error(`File too large. Maximum size is ${Math.round(maxSize / 1024 / 1024)}MB.`);
+    }
+
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        disputes: {
+          where: { status: { in: OPEN_DISPUTE_STATUSES } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (!match.participants.some(p => p.userId === userId)) {
+      throw new Error('Only match participants can upload evidence');
+    }
+
+    const stored = await this.storageService.putContent(STORAGE_PREFIX, file.buffer, file.mimetype);
+
+    const existing = await this.prisma.evidence.findUnique({
+      where: { matchId_sha256: { matchId, sha256: stored.sha256 } }
+    });
+
+    if (existing) return this.withUrl(existing);
+
+    const evidence = await this.prisma.evidence.create({
+      data: {
+        matchId,
+        disputeId: match.disputes[0]?.id,
+        uploadedBy: userId,
+        kind,
+        mimeType: file.mimetype,
+        size: stored.size,
+        sha256: stored.sha256,
+        storageKey: stored.key,
+        fileName: file.originalname
+      }
+    });
+
+    return this.withUrl(evidence);
+  }
+
+  // Back a dispute with evidence already uploaded to its match
+  async attachToDispute(disputeId: string, evidenceIds: string[]) {
+    const dispute = await this.prisma.dispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute || !dispute.matchId) {
+      throw new Error('Dispute not found');
+    }
+
+    const { count } = await this.prisma.evidence.updateMany({
+      where: {
+        id: { in: evidenceIds },
+        matchId: dispute.matchId
+      },
+      data: { disputeId }
+    });
+
+    if (count !== evidenceIds.length) {
+      throw new Error('Evidence must be uploaded to the disputed match');
+    }
+
+    return count;
+  }
+
+  // ===== QUERIES =====
+
+  // Everything uploaded to the disputed match, not only what the reporter attached
+  async getForDispute(disputeId: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { matchId: true }
+    });
+
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+
+    const evidence = await this.prisma.evidence.findMany({
+      where: {
+        OR: [
+          { disputeId },
+          ...(dispute.matchId ? [{ matchId: dispute.matchId }] : [])
+        ]
+      },
+      include: { uploader: { select: { id: true, username: true, displayName: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return evidence.map(item => this.withUrl(item));
+  }
+
+  async getForMatch(matchId: string) {
+    const evidence = await this.prisma.evidence.findMany({
+      where: { matchId },
+      include: { uploader: { select: { id: true, username: true, displayName: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return evidence.map(item => this.withUrl(item));
+  }
+
+  // ===== DOWNLOADS =====
+
+  // The signed link is the credential, so media players can load it directly
+  verifyDownload(evidenceId: string, expires: number, signature: string): boolean {
+    return this.storageService.verifySignature(this.downloadPath(evidenceId), expires, signature);
+  }
+
+  async openDownload(evidenceId: string) {
+    const evidence = await this.prisma.evidence.findUnique({ where: { id: evidenceId } });
+    if (!evidence) return null;
+
+    const stream: Readable = await this.storageService.get(evidence.storageKey);
+
+    return {
+      stream,
+      mimeType: evidence.mimeType,
+      size: evidence.size,
+      fileName: evidence.fileName
+    };
+  }
+
+  // ===== HELPER METHODS =====
+
+  private kindFor(mimeType: string): EvidenceKind {
+    if (SCREENSHOT_TYPES.includes(mimeType)) return 'SCREENSHOT';
+    if (VIDEO_TYPES.includes(mimeType)) return 'VIDEO';
+
+    throw new Error(`Invalid file type. Allowed types: ${EVIDENCE_TYPES.join(', ')}`);
+  }
+
+  // Storage keys stay server-side; clients get a short-lived link instead
+  private withUrl<T extends Evidence>(evidence: T): Omit<T, 'storageKey'> & SignedUrl {
+    const { storageKey, ...rest } = evidence;
+    return { ...rest, ...this.storageService.signUrl(this.downloadPath(evidence.id)) };
+  }
+
+  private downloadPath(evidenceId: string): string {
+    return `/api/evidence/${evidenceId}/download`;
+  }
+}
+
+export default EvidenceService;
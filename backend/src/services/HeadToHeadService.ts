@@ -0,0 +1,195 @@
+import { PrismaClient } from '@prisma/client';
+import { MatchResultUtils } from '../utils/matchResult';
+
+export type CompetitorType = 'user' | 'team';
+
+export interface Competitor {
+  id: string;
+  name: string;
+  currentElo: number;
+  winRate: number;
+}
+
+export interface Meeting {
+  matchId: string;
+  playedAt: Date | null;
+  tournament: { id: string; name: string } | null;
+  goalsFor: number;           // From the first competitor's side
+  goalsAgainst: number;
+  winnerId: string | null;
+  decidedBy: string | null;
+}
+
+export interface HeadToHead {
+  type: CompetitorType;
+  competitor: Competitor;
+  opponent: Competitor;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  streak: { holderId: string | null; length: number };
+  lastMeetings: Meeting[];
+  tournaments: Array<{ id: string; name: string; meetings: number }>;
+}
+
+const DEFAULT_MEETINGS = 5;
+
+export class HeadToHeadService {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===== HEAD-TO-HEAD =====
+
+  /**
+   * Record between two users or two teams, from the first one's point of
+   * view. Only completed matches count; walkovers weren't played.
+   */
+  async getHeadToHead(
+    type: CompetitorType,
+    competitorId: string,
+    opponentId: string,
+    limit: number = DEFAULT_MEETINGS
+  ): Promise<HeadToHead> {
+    if (competitorId === opponentId) {
+      throw new Error('A head-to-head needs two different competitors');
+    }
+
+    const [competitor, opponent] = await Promise.all([
+      this.getCompetitor(type, competitorId),
+      this.getCompetitor(type, opponentId)
+    ]);
+
+    const key = type === 'user' ? 'userId' : 'teamId';
+    const matches = await this.prisma.match.findMany({
+      where: {
+        status: 'COMPLETED',
+        AND: [
+          { participants: { some: { [key]: competitorId } } },
+          { participants: { some: { [key]: opponentId } } }
+        ]
+      },
+      include: {
+        participants: true,
+        tournament: { select: { id: true, name: true } },
+        results: {
+          where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+          orderBy: { submittedAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { completedAt: 'desc' }
+    });
+
+    const meetings: Meeting[] = matches
+      .filter(match => match.results.length > 0)
+      .map(match => {
+        const result = match.results[0];
+        const side = match.participants.find(p => p[key] === competitorId)!.side;
+        const final = MatchResultUtils.hasExtraTime(result)
+          ? [result.player1ExtraTimeScore!, result.player2ExtraTimeScore!]
+          : [result.player1Score, result.player2Score];
+
+        return {
+          matchId: match.id,
+          playedAt: match.completedAt,
+          tournament: match.tournament,
+          goalsFor: side === 1 ? final[0] : final[1],
+          goalsAgainst: side === 1 ? final[1] : final[0],
+          winnerId: match.winnerId,
+          decidedBy: MatchResultUtils.resolve(result).decidedBy
+        };
+      });
+
+    const tournaments = new Map<string, { id: string; name: string; meetings: number }>();
+    for (const meeting of meetings) {
+      if (!meeting.tournament) continue;
+      const entry = tournaments.get(meeting.tournament.id) || { ...meeting.tournament, meetings: 0 };
+      entry.meetings++;
+      tournaments.set(meeting.tournament.id, entry);
+    }
+
+    return {
+      type,
+      competitor,
+      opponent,
+      played: meetings.length,
+      wins: meetings.filter(m => m.winnerId === competitorId).length,
+      draws: meetings.filter(m => !m.winnerId).length,
+      losses: meetings.filter(m => m.winnerId === opponentId).length,
+      goalsFor: meetings.reduce((sum, m) => sum + m.goalsFor, 0),
+      goalsAgainst: meetings.reduce((sum, m) => sum + m.goalsAgainst, 0),
+      streak: this.getStreak(meetings),
+      lastMeetings: meetings.slice(0, limit),
+      tournaments: Array.from(tournaments.values())
+    };
+  }
+
+  // Head-to-head of a match's two sides, from side 1's point of view
+  async getForMatch(matchId: string, limit: number = DEFAULT_MEETINGS): Promise<HeadToHead | null> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: { participants: { orderBy: { side: 'asc' } } }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    const [home, away] = match.participants;
+    if (!home || !away) return null;
+
+    return home.userId && away.userId
+      ? await this.getHeadToHead('user', home.userId, away.userId, limit)
+      : await this.getHeadToHead('team', home.teamId!, away.teamId!, limit);
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async getCompetitor(type: CompetitorType, id: string): Promise<Competitor> {
+    if (type === 'user') {
+      const user = await this.prisma.user.findUnique({
+        where: { id },
+        select: { id: true, username: true, displayName: true, currentElo: true, winRate: true }
+      });
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      return {
+        id: user.id,
+        name: user.displayName || user.username,
+        currentElo: user.currentElo,
+        winRate: user.winRate
+      };
+    }
+
+    const team = await this.prisma.team.findUnique({
+      where: { id },
+      select: { id: true, name: true, currentElo: true, winRate: true }
+    });
+
+    if (!team) {
+      throw new Error('Team not found');
+    }
+
+    return team;
+  }
+
+  // Run of consecutive wins by one side, counted back from the latest meeting
+  private getStreak(meetings: Meeting[]): { holderId: string | null; length: number } {
+    const holderId = meetings[0]?.winnerId ?? null;
+    if (!holderId) return { holderId: null, length: 0 };
+
+    let length = 0;
+    while (length < meetings.length && meetings[length].winnerId === holderId) {
+      length++;
+    }
+
+    return { holderId, length };
+  }
+}
+
+export default HeadToHeadService;
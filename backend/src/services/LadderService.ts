@@ -0,0 +1,450 @@
+import { PrismaClient, GameMode, Season, SeasonStanding } from '@prisma/client';
+import { Queue, Job } from 'bull';
+import { z } from 'zod';
+import { RedisService } from './RedisService';
+import { NotificationService } from './NotificationService';
+import { LadderUtils, SEASON_START_DEVIATION } from '../utils/ladder';
+
+const SeasonSchema = z.object({
+  name: z.string().min(3).max(100),
+  gameMode: z.enum(['ULTIMATE_TEAM', 'KICK_OFF', 'CAREER_MODE', 'VOLTA_FOOTBALL', 'PRO_CLUBS']),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  carryOver: z.number().min(0).max(1).default(0.75),
+  decayDays: z.number().int().min(1).max(90).default(14),
+  decayPoints: z.number().int().min(0).max(100).default(10)
+}).refine(
+  data => data.endsAt > data.startsAt,
+  { message: 'A season must end after it starts' }
+);
+
+type LadderJob = 'start' | 'end' | 'decay';
+
+// Decay is applied once a day
+const DECAY_CRON = '0 4 * * *';
+
+interface LeaderboardQuery {
+  seasonId?: string;
+  gameMode: GameMode;
+  limit: number;
+  offset: number;
+}
+
+export class LadderService {
+  constructor(
+    private prisma: PrismaClient,
+    private redisService: RedisService,
+    private notificationService?: NotificationService,
+    private ladderQueue?: Queue
+  ) {
+    this.ladderQueue?.process((job: Job) => this.runLadderJob(job.data.type, job.data.seasonId));
+    this.scheduleDecay().catch(error => console.error('Failed to schedule ladder decay:', error));
+  }
+
+  // ===== SEASONS =====
+
+  async createSeason(data: any) {
+    const validated = SeasonSchema.parse(data);
+
+    const overlapping = await this.prisma.season.findFirst({
+      where: {
+        gameMode: validated.gameMode,
+        status: { not: 'ENDED' },
+        startsAt: { lt: validated.endsAt },
+        endsAt: { gt: validated.startsAt }
+      }
+    });
+
+    if (overlapping) {
+      throw new Error(`Season overlaps with ${overlapping.name}`);
+    }
+
+    const season = await this.prisma.season.create({
+      data: validated
+    });
+
+    await this.scheduleJob(season.id, 'start', season.startsAt);
+    await this.scheduleJob(season.id, 'end', season.endsAt);
+
+    return season;
+  }
+
+  async getSeasons(gameMode?: GameMode) {
+    return await this.prisma.season.findMany({
+      where: { gameMode },
+      orderBy: { startsAt: 'desc' },
+      include: {
+        _count: { select: { standings: true } }
+      }
+    });
+  }
+
+  /**
+   * Soft-reset every rating in the season's game mode and open an empty
+   * ladder. A season still running in the same mode is archived first.
+   */
+  async startSeason(seasonId: string) {
+    const season = await this.prisma.season.findUnique({
+      where: { id: seasonId }
+    });
+
+    if (!season) {
+      throw new Error('Season not found');
+    }
+
+    if (season.status !== 'UPCOMING') {
+      throw new Error('Season has already started');
+    }
+
+    const running = await this.getActiveSeason(season.gameMode);
+    if (running) {
+      await this.endSeason(running.id);
+    }
+
+    const ratings = await this.prisma.playerRating.findMany({
+      where: { gameMode: season.gameMode, userId: { not: null } }
+    });
+
+    for (const rating of ratings) {
+      await this.prisma.playerRating.update({
+        where: { id: rating.id },
+        data: {
+          rating: LadderUtils.softReset(rating.rating, season.carryOver),
+          deviation: Math.max(rating.deviation, SEASON_START_DEVIATION)
+        }
+      });
+    }
+
+    await this.cancelJob(seasonId, 'start');
+
+    return await this.prisma.season.update({
+      where: { id: seasonId },
+      data: { status: 'ACTIVE', startedAt: new Date() }
+    });
+  }
+
+  // Archive the Redis ladder into the standings and close the season
+  async endSeason(seasonId: string) {
+    const season = await this.prisma.season.findUnique({
+      where: { id: seasonId }
+    });
+
+    if (!season) {
+      throw new Error('Season not found');
+    }
+
+    if (season.status !== 'ACTIVE') {
+      throw new Error('Season is not active');
+    }
+
+    const leaderboardName = this.leaderboardName(seasonId);
+    const size = await this.redisService.getLeaderboardSize(leaderboardName);
+    const snapshot = await this.redisService.getLeaderboard(leaderboardName, size);
+
+    for (let i = 0; i < snapshot.length; i++) {
+      await this.prisma.seasonStanding.update({
+        where: { seasonId_userId: { seasonId, userId: snapshot[i].userId } },
+        data: { finalRank: i + 1, points: snapshot[i].score }
+      });
+    }
+
+    const ended = await this.prisma.season.update({
+      where: { id: seasonId },
+      data: { status: 'ENDED', endedAt: new Date() }
+    });
+
+    await this.redisService.deleteLeaderboard(leaderboardName);
+    await this.cancelJob(seasonId, 'end');
+
+    return ended;
+  }
+
+  // ===== LADDER UPDATES =====
+
+  // Called with the player's new rating after every rated match
+  async recordMatch(userId: string, gameMode: GameMode, rating: number, score: number) {
+    const season = await this.getActiveSeason(gameMode);
+    if (!season) return null;
+
+    const existing = await this.prisma.seasonStanding.findUnique({
+      where: { seasonId_userId: { seasonId: season.id, userId } }
+    });
+
+    const points = LadderUtils.points(rating, 0);
+    const division = LadderUtils.nextDivision(existing?.division ?? null, points);
+    const results = {
+      wins: score === 1 ? 1 : 0,
+      losses: score === 0 ? 1 : 0,
+      draws: score === 0.5 ? 1 : 0
+    };
+
+    const standing = await this.prisma.seasonStanding.upsert({
+      where: { seasonId_userId: { seasonId: season.id, userId } },
+      create: {
+        seasonId: season.id,
+        userId,
+        division,
+        rating,
+        points,
+        peakPoints: points,
+        lastMatchAt: new Date(),
+        ...results
+      },
+      update: {
+        division,
+        rating,
+        decay: 0,
+        points,
+        peakPoints: Math.max(existing?.peakPoints ?? points, points),
+        lastChange: points - (existing?.points ?? points),
+        lastMatchAt: new Date(),
+        wins: { increment: results.wins },
+        losses: { increment: results.losses },
+        draws: { increment: results.draws }
+      }
+    });
+
+    await this.redisService.updateLeaderboard(this.leaderboardName(season.id), userId, points);
+    await this.notifyDivisionChange(season, existing, standing);
+
+    return standing;
+  }
+
+  // Take a match back out of the standing, e.g. when an appeal overturns it
+  async revertMatch(userId: string, gameMode: GameMode, rating: number, score: number) {
+    const season = await this.getActiveSeason(gameMode);
+    if (!season) return null;
+
+    const existing = await this.prisma.seasonStanding.findUnique({
+      where: { seasonId_userId: { seasonId: season.id, userId } }
+    });
+    if (!existing) return null;
+
+    const points = LadderUtils.points(rating, existing.decay);
+    const division = LadderUtils.nextDivision(existing.division, points);
+
+    const standing = await this.prisma.seasonStanding.update({
+      where: { id: existing.id },
+      data: {
+        division,
+        rating,
+        points,
+        lastChange: points - existing.points,
+        wins: { decrement: score === 1 ? 1 : 0 },
+        losses: { decrement: score === 0 ? 1 : 0 },
+        draws: { decrement: score === 0.5 ? 1 : 0 }
+      }
+    });
+
+    await this.redisService.updateLeaderboard(this.leaderboardName(season.id), userId, points);
+    await this.notifyDivisionChange(season, existing, standing);
+
+    return standing;
+  }
+
+  // Inactive players lose points daily once their grace period is over
+  private async runDecay() {
+    const seasons = await this.prisma.season.findMany({
+      where: { status: 'ACTIVE' }
+    });
+    const now = new Date();
+
+    for (const season of seasons) {
+      const standings = await this.prisma.seasonStanding.findMany({
+        where: { seasonId: season.id }
+      });
+
+      for (const standing of standings) {
+        const decay = LadderUtils.decayFor(
+          standing.lastMatchAt || season.startedAt || season.startsAt,
+          now,
+          season.decayDays,
+          season.decayPoints
+        );
+
+        if (decay === standing.decay) continue;
+
+        const points = LadderUtils.points(standing.rating, decay);
+        const updated = await this.prisma.seasonStanding.update({
+          where: { id: standing.id },
+          data: {
+            decay,
+            points,
+            division: LadderUtils.nextDivision(standing.division, points),
+            lastChange: points - standing.points
+          }
+        });
+
+        await this.redisService.updateLeaderboard(this.leaderboardName(season.id), standing.userId, points);
+        await this.notifyDivisionChange(season, standing, updated);
+      }
+    }
+  }
+
+  // ===== LEADERBOARD =====
+
+  /**
+   * Ladder of the given season, or of the game mode's running season. Live
+   * seasons are ranked from Redis, ended ones from their archived standings.
+   * Returns null when there is no season to show.
+   */
+  async getLeaderboard(query: LeaderboardQuery) {
+    const season = query.seasonId
+      ? await this.prisma.season.findUnique({ where: { id: query.seasonId } })
+      : await this.getActiveSeason(query.gameMode);
+
+    if (!season || season.status === 'UPCOMING') return null;
+
+    let ranked: Array<{ userId: string; rank: number }>;
+
+    if (season.status === 'ACTIVE') {
+      const entries = await this.redisService.getLeaderboard(
+        this.leaderboardName(season.id),
+        query.limit,
+        query.offset
+      );
+      ranked = entries.map((entry, i) => ({ userId: entry.userId, rank: query.offset + i + 1 }));
+    } else {
+      const archived = await this.prisma.seasonStanding.findMany({
+        where: { seasonId: season.id, finalRank: { not: null } },
+        orderBy: { finalRank: 'asc' },
+        skip: query.offset,
+        take: query.limit
+      });
+      ranked = archived.map(standing => ({ userId: standing.userId, rank: standing.finalRank! }));
+    }
+
+    const standings = await this.prisma.seasonStanding.findMany({
+      where: { seasonId: season.id, userId: { in: ranked.map(entry => entry.userId) } },
+      include: {
+        user: {
+          select: { id: true, username: true, displayName: true, avatar: true, country: true }
+        }
+      }
+    });
+    const byUser = new Map(standings.map(standing => [standing.userId, standing]));
+
+    return {
+      season,
+      entries: ranked
+        .filter(entry => byUser.has(entry.userId))
+        .map(entry => this.toEntry(byUser.get(entry.userId)!, entry.rank))
+    };
+  }
+
+  async getStanding(userId: string, gameMode: GameMode, seasonId?: string) {
+    const season = seasonId
+      ? await this.prisma.season.findUnique({ where: { id: seasonId } })
+      : await this.getActiveSeason(gameMode);
+
+    if (!season) return null;
+
+    const standing = await this.prisma.seasonStanding.findUnique({
+      where: { seasonId_userId: { seasonId: season.id, userId } },
+      include: {
+        user: {
+          select: { id: true, username: true, displayName: true, avatar: true, country: true }
+        }
+      }
+    });
+
+    if (!standing) return null;
+
+    const rank = season.status === 'ACTIVE'
+      ? await this.redisService.getLeaderboardRank(this.leaderboardName(season.id), userId)
+      : standing.finalRank;
+
+    return this.toEntry(standing, rank);
+  }
+
+  // ===== JOBS =====
+
+  private async runLadderJob(type: LadderJob, seasonId?: string) {
+    switch (type) {
+      case 'start':
+        await this.startSeason(seasonId!);
+        break;
+
+      case 'end':
+        await this.endSeason(seasonId!);
+        break;
+
+      case 'decay':
+        await this.runDecay();
+        break;
+    }
+  }
+
+  private async scheduleJob(seasonId: string, type: LadderJob, runAt: Date) {
+    if (!this.ladderQueue) return;
+
+    await this.cancelJob(seasonId, type);
+    await this.ladderQueue.add(
+      { type, seasonId },
+      {
+        jobId: `${seasonId}:${type}`,
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+        removeOnComplete: true
+      }
+    );
+  }
+
+  private async cancelJob(seasonId: string, type: LadderJob) {
+    const job = await this.ladderQueue?.getJob(`${seasonId}:${type}`);
+    await job?.remove();
+  }
+
+  private async scheduleDecay() {
+    if (!this.ladderQueue) return;
+
+    await this.ladderQueue.add(
+      { type: 'decay' },
+      {
+        jobId: 'ladder-decay',
+        repeat: { cron: DECAY_CRON },
+        removeOnComplete: true
+      }
+    );
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async getActiveSeason(gameMode: GameMode) {
+    return await this.prisma.season.findFirst({
+      where: { gameMode, status: 'ACTIVE' }
+    });
+  }
+
+  private async notifyDivisionChange(season: Season, before: SeasonStanding | null, after: SeasonStanding) {
+    if (!before || before.division === after.division) return;
+
+    const promoted = LadderUtils.rank(after.division) > LadderUtils.rank(before.division);
+    await this.notificationService?.notifyDivisionChange(after.userId, season.name, after.division, promoted);
+  }
+
+  private leaderboardName(seasonId: string): string {
+    return `season:${seasonId}`;
+  }
+
+  private toEntry(standing: SeasonStanding & { user: any }, rank: number | null) {
+    const played = standing.wins + standing.losses + standing.draws;
+
+    return {
+      ...standing.user,
+      rank,
+      division: standing.division,
+      value: standing.points,
+      peak: standing.peakPoints,
+      decay: standing.decay,
+      change: standing.lastChange,
+      matchStats: {
+        wins: standing.wins,
+        losses: standing.losses,
+        draws: standing.draws,
+        winRate: played > 0 ? standing.wins / played : 0
+      }
+    };
+  }
+}
+
+export default LadderService;
@@ -0,0 +1,517 @@
+import { PrismaClient, MatchResult, WalkoverReason } from '@prisma/client';
+import { Queue, Job } from 'bull';
+import { BracketService } from './BracketService';
+import { ArbitrationService } from './ArbitrationService';
+import { NotificationService } from './NotificationService';
+import { ResultScores } from '../utils/matchResult';
+import { SeriesGame } from '../utils/series';
+
+export interface ResultReport extends ResultScores {
+  games: SeriesGame[];
+  evidence?: any;
+  // Set when the score was read from a screenshot
+  ocrData?: any;
+  confidence?: number;
+  anomalies?: string[];
+}
+
+interface ReportOutcome {
+  status: 'awaiting_confirmation' | 'validated' | 'disputed';
+  result: MatchResult;
+  confirmBy?: Date;
+  progression?: any;
+  dispute?: any;
+}
+
+type ResultJob = 'auto-confirm' | 'no-show-sweep';
+
+const REPORTABLE_STATUSES = ['READY', 'LIVE', 'WAITING_RESULTS'];
+
+// Awarded score for a walkover, from the winner's side
+const WALKOVER_SCORE = 3;
+
+// Ranked matches have no tournament settings, so they use these
+const RANKED_CONFIRMATION_MINUTES = 30;
+const RANKED_NO_SHOW_MINUTES = 10;
+
+const NO_SHOW_SWEEP_INTERVAL = 60 * 1000;
+
+export class MatchResultService {
+  constructor(
+    private prisma: PrismaClient,
+    private bracketService: BracketService,
+    private arbitrationService: ArbitrationService,
+    private notificationService?: NotificationService,
+    private resultQueue?: Queue
+  ) {
+    this.resultQueue?.process((job: Job) => this.runResultJob(job.data.type, job.data.resultId));
+    this.scheduleNoShowSweep().catch(error => console.error('Failed to schedule no-show sweep:', error));
+  }
+
+  // ===== REPORTING =====
+
+  /**
+   * Each side reports the score it saw. The first report waits for the
+   * opponent: a matching report validates it, a conflicting one opens a
+   * dispute, and no answer within the tournament's confirmation window
+   * confirms it automatically.
+   */
+  async submitReport(matchId: string, userId: string, report: ResultReport): Promise<ReportOutcome> {
+    const match = await this.getReportableMatch(matchId, userId);
+
+    const pending = await this.prisma.matchResult.findMany({
+      where: { matchId, status: 'PENDING' },
+      include: { games: { orderBy: { gameNumber: 'asc' } } },
+      orderBy: { submittedAt: 'asc' }
+    });
+
+    if (pending.some(r => r.submittedBy === userId)) {
+      throw new Error('You have already reported this match; waiting for your opponent to confirm');
+    }
+
+    const opponentReport = pending.find(r => r.submittedBy !== userId);
+
+    if (opponentReport && this.reportsMatch(opponentReport, report)) {
+      return await this.validate(opponentReport, userId, 'VALIDATED');
+    }
+
+    const result = await this.prisma.matchResult.create({
+      data: {
+        matchId,
+        submittedBy: userId,
+        player1Score: report.player1Score,
+        player2Score: report.player2Score,
+        player1ExtraTimeScore: report.player1ExtraTimeScore ?? null,
+        player2ExtraTimeScore: report.player2ExtraTimeScore ?? null,
+        player1Penalties: report.player1Penalties ?? null,
+        player2Penalties: report.player2Penalties ?? null,
+        status: opponentReport ? 'DISPUTED' : 'PENDING',
+        evidence: report.evidence,
+        ocrData: report.ocrData,
+        confidence: report.confidence,
+        anomalies: report.anomalies,
+        games: {
+          create: report.games.map((game, index) => ({
+            gameNumber: index + 1,
+            player1Score: game.player1Score,
+            player2Score: game.player2Score
+          }))
+        }
+      },
+      include: { games: true }
+    });
+
+    await this.prisma.match.update({
+      where: { id: matchId },
+      data: {
+        status: opponentReport ? 'DISPUTED' : 'WAITING_RESULTS',
+        currentGame: Math.max(report.games.length, 1)
+      }
+    });
+
+    if (opponentReport) {
+      const dispute = await this.openConflictDispute(match.tournamentId, matchId, userId, opponentReport, result);
+      return { status: 'disputed', result, dispute };
+    }
+
+    const confirmationMinutes = match.tournament?.resultConfirmationMinutes ?? RANKED_CONFIRMATION_MINUTES;
+    const confirmBy = new Date(Date.now() + confirmationMinutes * 60 * 1000);
+    await this.scheduleAutoConfirm(result.id, confirmBy);
+    await this.notificationService?.notifyResultReported(matchId, userId, confirmBy);
+
+    return { status: 'awaiting_confirmation', result, confirmBy };
+  }
+
+  // The opponent accepts the pending report as it stands
+  async confirmResult(matchId: string, userId: string): Promise<ReportOutcome> {
+    await this.getReportableMatch(matchId, userId);
+
+    const pending = await this.prisma.matchResult.findFirst({
+      where: { matchId, status: 'PENDING', submittedBy: { not: userId } },
+      orderBy: { submittedAt: 'desc' }
+    });
+
+    if (!pending) {
+      throw new Error('There is no reported result waiting for your confirmation');
+    }
+
+    return await this.validate(pending, userId, 'VALIDATED');
+  }
+
+  // ===== CONFIRMATION =====
+
+  // Progression reads the validated result, so the result is validated first
+  // and put back as it was if the match cannot be progressed on it
+  private async validate(
+    result: MatchResult,
+    validatedBy: string,
+    status: 'VALIDATED' | 'AUTO_VALIDATED'
+  ): Promise<ReportOutcome> {
+    const validated = await this.prisma.matchResult.update({
+      where: { id: result.id },
+      data: {
+        status,
+        validatedBy,
+        validatedAt: new Date()
+      }
+    });
+
+    let progression;
+    try {
+      progression = await this.bracketService.processValidatedResult(result.matchId);
+    } catch (error) {
+      await this.prisma.matchResult.update({
+        where: { id: result.id },
+        data: {
+          status: result.status,
+          validatedBy: result.validatedBy,
+          validatedAt: result.validatedAt
+        }
+      });
+      throw error;
+    }
+
+    await this.cancelAutoConfirm(result.id);
+    await this.notifyOutcome(result.matchId, validated);
+
+    return { status: 'validated', result: validated, progression };
+  }
+
+  // Auto-confirm only applies to a report nobody has answered yet
+  private async autoConfirm(resultId: string) {
+    const result = await this.prisma.matchResult.findUnique({
+      where: { id: resultId }
+    });
+
+    if (!result || result.status !== 'PENDING') return;
+
+    await this.validate(result, 'system', 'AUTO_VALIDATED');
+  }
+
+  private async runResultJob(type: ResultJob, resultId?: string) {
+    switch (type) {
+      case 'auto-confirm':
+        await this.autoConfirm(resultId!);
+        break;
+
+      case 'no-show-sweep':
+        await this.runNoShowSweep();
+        break;
+    }
+  }
+
+  private async scheduleAutoConfirm(resultId: string, runAt: Date) {
+    if (!this.resultQueue) return;
+
+    await this.resultQueue.add(
+      { type: 'auto-confirm', resultId },
+      {
+        jobId: `${resultId}:auto-confirm`,
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+        removeOnComplete: true
+      }
+    );
+  }
+
+  private async cancelAutoConfirm(resultId: string) {
+    const job = await this.resultQueue?.getJob(`${resultId}:auto-confirm`);
+    await job?.remove();
+  }
+
+  // ===== MATCH END & WALKOVERS =====
+
+  // Stop the clock on a live match; both sides then report the score
+  async endMatch(matchId: string, userId: string) {
+    const match = await this.getReportableMatch(matchId, userId);
+
+    if (match.status !== 'LIVE') {
+      throw new Error('Only a live match can be ended');
+    }
+
+    const ended = await this.prisma.match.update({
+      where: { id: matchId },
+      data: { status: 'WAITING_RESULTS' }
+    });
+
+    await this.notificationService?.broadcastMatchUpdate(matchId, {
+      type: 'match_ended',
+      matchId
+    });
+
+    return ended;
+  }
+
+  async forfeit(matchId: string, userId: string): Promise<ReportOutcome> {
+    const forfeiting = await this.prisma.matchParticipant.findFirst({
+      where: { matchId, userId }
+    });
+
+    if (!forfeiting) {
+      throw new Error('Only match participants can forfeit');
+    }
+
+    return await this.awardWalkover(matchId, forfeiting.side === 1 ? 2 : 1, 'FORFEIT', userId);
+  }
+
+  async awardWalkoverAsOrganizer(matchId: string, winnerSide: 1 | 2, userId: string): Promise<ReportOutcome> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: { tournament: true }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (!match.tournament || match.tournament.organizerId !== userId) {
+      throw new Error('Only the tournament organizer can award a walkover');
+    }
+
+    return await this.awardWalkover(matchId, winnerSide, 'ORGANIZER', userId);
+  }
+
+  /**
+   * A walkover is recorded as an awarded result so tables and brackets
+   * progress as usual, but the match keeps the WALKOVER status so it is left
+   * out of match stats and rating changes. Reports still waiting for
+   * confirmation are rejected.
+   */
+  private async awardWalkover(
+    matchId: string,
+    winnerSide: 1 | 2,
+    reason: WalkoverReason,
+    awardedBy: string
+  ): Promise<ReportOutcome> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        results: { where: { status: 'PENDING' } }
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (!['PENDING', ...REPORTABLE_STATUSES].includes(match.status)) {
+      throw new Error('Match is already settled');
+    }
+
+    if (match.participants.length !== 2) {
+      throw new Error('A walkover needs both sides of the match to be known');
+    }
+
+    for (const pending of match.results) {
+      await this.prisma.matchResult.update({
+        where: { id: pending.id },
+        data: { status: 'REJECTED' }
+      });
+      await this.cancelAutoConfirm(pending.id);
+    }
+
+    const result = await this.prisma.matchResult.create({
+      data: {
+        matchId,
+        submittedBy: awardedBy,
+        player1Score: winnerSide === 1 ? WALKOVER_SCORE : 0,
+        player2Score: winnerSide === 2 ? WALKOVER_SCORE : 0,
+        status: 'VALIDATED',
+        validatedAt: new Date(),
+        validatedBy: 'WALKOVER'
+      }
+    });
+
+    await this.prisma.match.update({
+      where: { id: matchId },
+      data: { walkoverReason: reason }
+    });
+
+    const progression = await this.bracketService.processValidatedResult(matchId, 'WALKOVER');
+    await this.notifyOutcome(matchId, result);
+
+    return { status: 'validated', result, progression };
+  }
+
+  private async scheduleNoShowSweep() {
+    if (!this.resultQueue) return;
+
+    await this.resultQueue.add(
+      { type: 'no-show-sweep' },
+      {
+        jobId: 'no-show-sweep',
+        repeat: { every: NO_SHOW_SWEEP_INTERVAL },
+        removeOnComplete: true
+      }
+    );
+  }
+
+  // A side that checked in is awarded the match once its opponent is still
+  // missing the tournament's no-show window after the scheduled time. Matches
+  // where neither side checked in are left for the organizer. The walkover is
+  // recorded in the organizer's name, or the present player's in ranked play.
+  private async runNoShowSweep() {
+    const overdue = await this.prisma.match.findMany({
+      where: {
+        status: { in: ['PENDING', 'READY'] },
+        startedAt: null,
+        scheduledAt: { lte: new Date() },
+        OR: [{ tournament: { status: 'LIVE' } }, { tournamentId: null }]
+      },
+      include: {
+        participants: true,
+        tournament: { select: { noShowMinutes: true, organizerId: true } }
+      }
+    });
+
+    const failed: string[] = [];
+
+    for (const match of overdue) {
+      const noShowMinutes = match.tournament?.noShowMinutes ?? RANKED_NO_SHOW_MINUTES;
+      const deadline = match.scheduledAt!.getTime() + noShowMinutes * 60 * 1000;
+      if (deadline > Date.now() || match.participants.length !== 2) continue;
+
+      const checkedIn = match.participants.filter(p => p.checkedInAt);
+      if (checkedIn.length !== 1) continue;
+
+      const awardedBy = match.tournament?.organizerId ?? checkedIn[0].userId;
+
+      try {
+        if (!awardedBy) {
+          throw new Error('No user to record the walkover for');
+        }
+
+        await this.awardWalkover(match.id, checkedIn[0].side as 1 | 2, 'NO_SHOW', awardedBy);
+      } catch (error) {
+        console.error(`No-show walkover failed for match ${match.id}:`, error);
+        failed.push(match.id);
+      }
+    }
+
+    // Fail the job so the queue records it; the next sweep retries these matches
+    if (failed.length > 0) {
+      throw new Error(`No-show walkover failed for matches: ${failed.join(', ')}`);
+    }
+  }
+
+  // ===== CONFLICTS =====
+
+  private async openConflictDispute(
+    tournamentId: string | null,
+    matchId: string,
+    reportedBy: string,
+    original: MatchResult,
+    conflicting: MatchResult
+  ) {
+    await this.prisma.matchResult.update({
+      where: { id: original.id },
+      data: { status: 'DISPUTED' }
+    });
+
+    await this.cancelAutoConfirm(original.id);
+
+    const dispute = await this.arbitrationService.submitDispute({
+      tournamentId,
+      matchId,
+      reportedBy,
+      category: 'WRONG_RESULT',
+      description: `Conflicting results reported: ${this.formatScore(original)} and ${this.formatScore(conflicting)}.`,
+      evidence: [
+        { type: 'result_report', resultId: original.id, submittedBy: original.submittedBy },
+        { type: 'result_report', resultId: conflicting.id, submittedBy: conflicting.submittedBy }
+      ]
+    });
+
+    await this.notificationService?.notifyDisputeCreated(dispute.id);
+    await this.notificationService?.broadcastMatchUpdate(matchId, {
+      type: 'result_disputed',
+      matchId,
+      disputeId: dispute.id
+    });
+
+    return dispute;
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async getReportableMatch(matchId: string, userId: string) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        tournament: true
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (!match.participants.some(p => p.userId === userId)) {
+      throw new Error('Only match participants can report results');
+    }
+
+    if (!REPORTABLE_STATUSES.includes(match.status)) {
+      throw new Error('Match is not in a state where results can be submitted');
+    }
+
+    return match;
+  }
+
+  private reportsMatch(existing: MatchResult & { games: SeriesGame[] }, report: ResultReport): boolean {
+    const sameScore =
+      existing.player1Score === report.player1Score &&
+      existing.player2Score === report.player2Score &&
+      existing.player1ExtraTimeScore === (report.player1ExtraTimeScore ?? null) &&
+      existing.player2ExtraTimeScore === (report.player2ExtraTimeScore ?? null) &&
+      existing.player1Penalties === (report.player1Penalties ?? null) &&
+      existing.player2Penalties === (report.player2Penalties ?? null);
+
+    return sameScore &&
+      existing.games.length === report.games.length &&
+      existing.games.every((game, i) =>
+        game.player1Score === report.games[i].player1Score &&
+        game.player2Score === report.games[i].player2Score
+      );
+  }
+
+  private async notifyOutcome(matchId: string, result: MatchResult) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: { participants: true }
+    });
+
+    if (!match) return;
+
+    const winner = match.participants.find(p => (p.userId || p.teamId) === match.winnerId);
+    const loser = match.participants.find(p => p !== winner);
+
+    if (winner?.userId && loser?.userId) {
+      await this.notificationService?.notifyMatchResult(matchId, winner.userId, loser.userId);
+    }
+
+    await this.notificationService?.broadcastMatchUpdate(matchId, {
+      type: 'result_confirmed',
+      matchId,
+      resultId: result.id,
+      status: result.status,
+      winnerId: match.winnerId
+    });
+  }
+
+  private formatScore(result: MatchResult): string {
+    let score = `${result.player1Score}-${result.player2Score}`;
+
+    if (result.player1ExtraTimeScore !== null && result.player2ExtraTimeScore !== null) {
+      score += ` (${result.player1ExtraTimeScore}-${result.player2ExtraTimeScore} aet)`;
+    }
+
+    if (result.player1Penalties !== null && result.player2Penalties !== null) {
+      score += ` (${result.player1Penalties}-${result.player2Penalties} pens)`;
+    }
+
+    return score;
+  }
+}
+
+export default MatchResultService;
@@ -0,0 +1,309 @@
+import { PrismaClient, MatchStatus } from '@prisma/client';
+import { Queue, Job } from 'bull';
+import { z } from 'zod';
+import { NotificationService } from './NotificationService';
+
+const DefaultSlotSchema = z.object({
+  round: z.number().int().min(1),
+  bracketId: z.string().optional(),
+  defaultScheduledAt: z.coerce.date(),
+  schedulingDeadline: z.coerce.date()
+}).refine(
+  data => data.schedulingDeadline <= data.defaultScheduledAt,
+  { message: 'The scheduling deadline must be before the default slot' }
+);
+
+type SchedulingJob = 'deadline' | 'reminder';
+
+// Minutes before kick-off that both sides get a reminder
+const MATCH_REMINDER_MINUTES = 15;
+
+const SCHEDULABLE_STATUSES: MatchStatus[] = ['PENDING', 'READY'];
+
+export class MatchSchedulingService {
+  constructor(
+    private prisma: PrismaClient,
+    private notificationService?: NotificationService,
+    private schedulingQueue?: Queue
+  ) {
+    this.schedulingQueue?.process((job: Job) => this.runSchedulingJob(job.data.type, job.data.matchId));
+  }
+
+  // ===== ORGANIZER DEFAULTS =====
+
+  async setDefaultSlot(tournamentId: string, data: any, organizerId: string) {
+    const validated = DefaultSlotSchema.parse(data);
+
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id: tournamentId, organizerId }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found or access denied');
+    }
+
+    if (validated.schedulingDeadline <= new Date()) {
+      throw new Error('The scheduling deadline must be in the future');
+    }
+
+    const matches = await this.prisma.match.findMany({
+      where: {
+        tournamentId,
+        round: validated.round,
+        bracketId: validated.bracketId,
+        status: { in: SCHEDULABLE_STATUSES }
+      }
+    });
+
+    for (const match of matches) {
+      await this.prisma.match.update({
+        where: { id: match.id },
+        data: {
+          defaultScheduledAt: validated.defaultScheduledAt,
+          schedulingDeadline: validated.schedulingDeadline
+        }
+      });
+
+      await this.scheduleJob(match.id, 'deadline', validated.schedulingDeadline);
+    }
+
+    return { updated: matches.length };
+  }
+
+  // ===== NEGOTIATION =====
+
+  async getSchedule(matchId: string) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        tournament: { select: { timezone: true } },
+        participants: {
+          include: {
+            user: { select: { id: true, username: true, displayName: true, timezone: true } }
+          }
+        },
+        scheduleProposals: {
+          orderBy: { createdAt: 'desc' },
+          include: {
+            proposer: { select: { id: true, username: true, timezone: true } }
+          }
+        }
+      }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    return {
+      matchId,
+      scheduledAt: match.scheduledAt,
+      defaultScheduledAt: match.defaultScheduledAt,
+      schedulingDeadline: match.schedulingDeadline,
+      tournamentTimezone: match.tournament?.timezone || 'UTC',
+      participants: match.participants.map(p => ({
+        side: p.side,
+        userId: p.userId,
+        username: p.user?.displayName || p.user?.username,
+        timezone: p.user?.timezone || match.tournament?.timezone || 'UTC'
+      })),
+      proposals: match.scheduleProposals
+    };
+  }
+
+  async proposeTime(matchId: string, userId: string, proposedTime: Date) {
+    const match = await this.getNegotiableMatch(matchId, userId, proposedTime);
+
+    const pending = await this.prisma.matchScheduleProposal.findFirst({
+      where: { matchId, status: 'PENDING' }
+    });
+
+    if (pending && pending.proposedBy !== userId) {
+      throw new Error('Your opponent has already proposed a time; accept it or counter-propose');
+    }
+
+    // A new proposal replaces the proposer's own unanswered one
+    if (pending) {
+      await this.prisma.matchScheduleProposal.update({
+        where: { id: pending.id },
+        data: { status: 'EXPIRED', respondedAt: new Date() }
+      });
+    }
+
+    return await this.createProposal(match.id, userId, proposedTime);
+  }
+
+  async counterPropose(matchId: string, proposalId: string, userId: string, proposedTime: Date) {
+    await this.getNegotiableMatch(matchId, userId, proposedTime);
+    const proposal = await this.getOpenProposal(matchId, proposalId, userId);
+
+    await this.prisma.matchScheduleProposal.update({
+      where: { id: proposal.id },
+      data: { status: 'COUNTERED', respondedAt: new Date() }
+    });
+
+    return await this.createProposal(matchId, userId, proposedTime);
+  }
+
+  async acceptProposal(matchId: string, proposalId: string, userId: string) {
+    await this.getNegotiableMatch(matchId, userId);
+    const proposal = await this.getOpenProposal(matchId, proposalId, userId);
+
+    if (proposal.proposedTime <= new Date()) {
+      throw new Error('The proposed time has already passed');
+    }
+
+    const accepted = await this.prisma.matchScheduleProposal.update({
+      where: { id: proposal.id },
+      data: { status: 'ACCEPTED', respondedAt: new Date() }
+    });
+
+    await this.applySchedule(matchId, proposal.proposedTime, false);
+
+    return accepted;
+  }
+
+  // ===== DEADLINES & REMINDERS =====
+
+  private async runSchedulingJob(type: SchedulingJob, matchId: string) {
+    switch (type) {
+      case 'deadline':
+        await this.applyDefaultSlot(matchId);
+        break;
+
+      case 'reminder':
+        await this.sendReminder(matchId);
+        break;
+    }
+  }
+
+  // Runs at the deadline; a match the opponents already agreed on is left alone
+  private async applyDefaultSlot(matchId: string) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        scheduleProposals: { where: { status: 'ACCEPTED' } }
+      }
+    });
+
+    if (!match || !SCHEDULABLE_STATUSES.includes(match.status)) return;
+    if (match.scheduleProposals.length > 0 || !match.defaultScheduledAt) return;
+
+    await this.prisma.matchScheduleProposal.updateMany({
+      where: { matchId, status: 'PENDING' },
+      data: { status: 'EXPIRED', respondedAt: new Date() }
+    });
+
+    await this.applySchedule(matchId, match.defaultScheduledAt, true);
+  }
+
+  private async sendReminder(matchId: string) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId }
+    });
+
+    if (!match || !match.scheduledAt || !SCHEDULABLE_STATUSES.includes(match.status)) return;
+
+    const minutesUntilStart = Math.max(1, Math.round((match.scheduledAt.getTime() - Date.now()) / 60000));
+    await this.notificationService?.notifyMatchReady(matchId, minutesUntilStart);
+  }
+
+  private async applySchedule(matchId: string, scheduledAt: Date, usedDefault: boolean) {
+    await this.prisma.match.update({
+      where: { id: matchId },
+      data: { scheduledAt }
+    });
+
+    await this.cancelJob(matchId, 'deadline');
+    await this.scheduleJob(
+      matchId,
+      'reminder',
+      new Date(scheduledAt.getTime() - MATCH_REMINDER_MINUTES * 60 * 1000)
+    );
+
+    await this.notificationService?.notifyMatchScheduled(matchId, scheduledAt, usedDefault);
+  }
+
+  private async scheduleJob(matchId: string, type: SchedulingJob, runAt: Date) {
+    if (!this.schedulingQueue) return;
+
+    await this.cancelJob(matchId, type);
+    await this.schedulingQueue.add(
+      { type, matchId },
+      {
+        jobId: `${matchId}:${type}`,
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+        removeOnComplete: true
+      }
+    );
+  }
+
+  private async cancelJob(matchId: string, type: SchedulingJob) {
+    const job = await this.schedulingQueue?.getJob(`${matchId}:${type}`);
+    await job?.remove();
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async createProposal(matchId: string, userId: string, proposedTime: Date) {
+    const proposal = await this.prisma.matchScheduleProposal.create({
+      data: {
+        matchId,
+        proposedBy: userId,
+        proposedTime
+      }
+    });
+
+    await this.notificationService?.notifyScheduleProposal(matchId, userId, proposedTime);
+
+    return proposal;
+  }
+
+  private async getNegotiableMatch(matchId: string, userId: string, proposedTime?: Date) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: { participants: true }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (!match.participants.some(p => p.userId === userId)) {
+      throw new Error('Only match participants can schedule the match');
+    }
+
+    if (!SCHEDULABLE_STATUSES.includes(match.status)) {
+      throw new Error('Match can no longer be rescheduled');
+    }
+
+    if (match.schedulingDeadline && match.schedulingDeadline <= new Date()) {
+      throw new Error('The scheduling deadline has passed');
+    }
+
+    if (proposedTime && proposedTime <= new Date()) {
+      throw new Error('Proposed time must be in the future');
+    }
+
+    return match;
+  }
+
+  // Only the side that didn't make a proposal can answer it
+  private async getOpenProposal(matchId: string, proposalId: string, userId: string) {
+    const proposal = await this.prisma.matchScheduleProposal.findFirst({
+      where: { id: proposalId, matchId, status: 'PENDING' }
+    });
+
+    if (!proposal) {
+      throw new Error('Proposal not found or already answered');
+    }
+
+    if (proposal.proposedBy === userId) {
+      throw new Error('You cannot answer your own proposal');
+    }
+
+    return proposal;
+  }
+}
+
+export default MatchSchedulingService;
@@ -0,0 +1,203 @@
+import { PrismaClient, GameMode, Platform, MatchStatus } from '@prisma/client';
+import { Queue } from 'bull';
+import { z } from 'zod';
+import { RedisService } from './RedisService';
+import { RatingService } from './RatingService';
+import { NotificationService } from './NotificationService';
+import { MatchmakingUtils, QueueTicket } from '../utils/matchmaking';
+
+const JoinQueueSchema = z.object({
+  gameMode: z.nativeEnum(GameMode),
+  platform: z.nativeEnum(Platform)
+});
+
+// A ticket expires, and its player leaves the queue, after this long unmatched
+const MAX_QUEUE_MINUTES = 10;
+
+const SWEEP_INTERVAL = 5 * 1000;
+
+// A player with a ranked match still in any of these can't queue again
+const OPEN_MATCH_STATUSES: MatchStatus[] = ['PENDING', 'READY', 'LIVE', 'WAITING_RESULTS', 'DISPUTED'];
+
+export class MatchmakingService {
+  constructor(
+    private prisma: PrismaClient,
+    private redisService: RedisService,
+    private ratingService: RatingService,
+    private notificationService?: NotificationService,
+    private matchmakingQueue?: Queue
+  ) {
+    this.matchmakingQueue?.process(() => this.runSweep());
+    this.scheduleSweep().catch(error => console.error('Failed to schedule matchmaking sweep:', error));
+  }
+
+  // ===== QUEUE =====
+
+  async joinQueue(userId: string, data: any) {
+    const { gameMode, platform } = JoinQueueSchema.parse(data);
+
+    const linked = await this.prisma.userPlatform.findUnique({
+      where: { userId_platform: { userId, platform } }
+    });
+
+    if (!linked) {
+      throw new Error('Link an account on this platform before queueing');
+    }
+
+    const openMatch = await this.prisma.match.findFirst({
+      where: {
+        tournamentId: null,
+        status: { in: OPEN_MATCH_STATUSES },
+        participants: { some: { userId } }
+      }
+    });
+
+    if (openMatch) {
+      throw new Error('Finish your current ranked match before queueing again');
+    }
+
+    // Queueing again replaces the player's ticket, possibly in another pool
+    const existing = await this.getTicket(userId);
+    if (existing) {
+      await this.removeTicket(existing);
+    }
+
+    const { rating } = await this.ratingService.getRating(userId, gameMode);
+    const ticket: QueueTicket = { userId, gameMode, platform, rating, joinedAt: Date.now() };
+
+    await this.redisService.set(this.ticketKey(userId), ticket, MAX_QUEUE_MINUTES * 60);
+    await this.redisService.addToPool(this.poolName(ticket), userId, rating);
+
+    await this.matchPool(this.poolName(ticket));
+
+    return await this.getStatus(userId);
+  }
+
+  async leaveQueue(userId: string): Promise<boolean> {
+    const ticket = await this.getTicket(userId);
+    if (!ticket) return false;
+
+    await this.removeTicket(ticket);
+    return true;
+  }
+
+  // Null once the player has been matched or has left
+  async getStatus(userId: string) {
+    const ticket = await this.getTicket(userId);
+    if (!ticket) return null;
+
+    return {
+      gameMode: ticket.gameMode,
+      platform: ticket.platform,
+      rating: Math.round(ticket.rating),
+      searchWindow: MatchmakingUtils.searchWindow(ticket),
+      waitedSeconds: Math.floor((Date.now() - ticket.joinedAt) / 1000)
+    };
+  }
+
+  // ===== PAIRING =====
+
+  // Windows widen with time, so every pool is retried on an interval
+  private async runSweep() {
+    for (const gameMode of Object.values(GameMode)) {
+      for (const platform of Object.values(Platform)) {
+        await this.matchPool(`${gameMode}:${platform}`);
+      }
+    }
+  }
+
+  /**
+   * Pair a pool under a lock, so two backend instances sweeping the same
+   * pool can't put one player into two matches.
+   */
+  private async matchPool(pool: string) {
+    const lock = `matchmaking:${pool}`;
+    if (!await this.redisService.acquireLock(lock, 10)) return;
+
+    try {
+      const tickets: QueueTicket[] = [];
+
+      for (const userId of await this.redisService.getPool(pool)) {
+        const ticket = await this.getTicket(userId);
+
+        if (!ticket || this.poolName(ticket) !== pool) {
+          await this.redisService.removeFromPool(pool, userId);
+          if (!ticket) {
+            await this.notificationService?.notifyMatchmakingExpired(userId, pool.split(':')[0]);
+          }
+          continue;
+        }
+
+        tickets.push(ticket);
+      }
+
+      for (const [first, second] of MatchmakingUtils.pair(tickets)) {
+        await this.createMatch(first, second);
+      }
+    } finally {
+      await this.redisService.releaseLock(lock);
+    }
+  }
+
+  // A ranked match has no tournament; it is reported, confirmed and rated
+  // like any other match
+  private async createMatch(first: QueueTicket, second: QueueTicket) {
+    await this.removeTicket(first);
+    await this.removeTicket(second);
+
+    const match = await this.prisma.match.create({
+      data: {
+        gameMode: first.gameMode as GameMode,
+        platform: first.platform as Platform,
+        round: 1,
+        position: 1,
+        status: 'PENDING',
+        scheduledAt: new Date(),
+        participants: {
+          create: [
+            { userId: first.userId, side: 1 },
+            { userId: second.userId, side: 2 }
+          ]
+        }
+      }
+    });
+
+    await this.notificationService?.notifyMatchFound(match.id);
+
+    return match;
+  }
+
+  private async scheduleSweep() {
+    if (!this.matchmakingQueue) return;
+
+    await this.matchmakingQueue.add(
+      {},
+      {
+        jobId: 'matchmaking-sweep',
+        repeat: { every: SWEEP_INTERVAL },
+        removeOnComplete: true
+      }
+    );
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async getTicket(userId: string): Promise<QueueTicket | null> {
+    return await this.redisService.getJson<QueueTicket>(this.ticketKey(userId));
+  }
+
+  private async removeTicket(ticket: QueueTicket) {
+    await this.redisService.del(this.ticketKey(ticket.userId));
+    await this.redisService.removeFromPool(this.poolName(ticket), ticket.userId);
+  }
+
+  private ticketKey(userId: string): string {
+    return `matchmaking:ticket:${userId}`;
+  }
+
+  private poolName(ticket: QueueTicket): string {
+    return `${ticket.gameMode}:${ticket.platform}`;
+  }
+}
+
+export default MatchmakingService;
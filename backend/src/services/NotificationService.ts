@@ -95,7 +95,61 @@ export class NotificationService {
     });
   }
 
-  async notifyMatchReady(matchId: string): Promise<void> {
+  async notifyCheckInOpen(tournamentId: string, closesAt: Date): Promise<void> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        participants: {
+          where: { status: 'REGISTERED', userId: { not: null } }
+        }
+      }
+    });
+
+    if (!tournament) return;
+
+    const notifications: NotificationData[] = tournament.participants.map(participant => ({
+      userId: participant.userId!,
+      type: 'TOURNAMENT_UPDATE',
+      title: 'Check-in Open',
+      message: `Check-in for ${tournament.name} is open until ${closesAt.toISOString()}. Players who don't check in will be removed.`,
+      data: { tournamentId, closesAt },
+      priority: 'HIGH'
+    }));
+
+    await this.sendBulkNotifications(notifications);
+
+    this.io.to(`tournament:${tournamentId}`).emit('check_in_open', {
+      tournamentId,
+      closesAt
+    });
+  }
+
+  async notifyCheckInReminder(tournamentId: string, minutesLeft: number): Promise<void> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        participants: {
+          where: { status: 'REGISTERED', userId: { not: null } }
+        }
+      }
+    });
+
+    if (!tournament) return;
+
+    // Only players who still haven't checked in
+    const notifications: NotificationData[] = tournament.participants.map(participant => ({
+      userId: participant.userId!,
+      type: 'TOURNAMENT_UPDATE',
+      title: 'Check-in Closing Soon',
+      message: `Check-in for ${tournament.name} closes in ${minutesLeft} minutes. Check in now to keep your place.`,
+      data: { tournamentId, minutesLeft },
+      priority: 'CRITICAL'
+    }));
+
+    await this.sendBulkNotifications(notifications);
+  }
+
+  async notifyMatchReady(matchId: string, minutesUntilStart?: number): Promise<void> {
     const match = await this.prisma.match.findUnique({
       where: { id: matchId },
       include: {
@@ -111,9 +165,11 @@ export class NotificationService {
     const notifications: NotificationData[] = match.participants.map(participant => ({
       userId: participant.userId!,
       type: 'MATCH_READY',
-      title: 'Match Ready!',
-      message: `Your match in ${match.tournament.name} is ready to start.`,
-      data: { matchId, tournamentId: match.tournamentId },
+      title: minutesUntilStart ? 'Match Starting Soon' : 'Match Ready!',
+      message: minutesUntilStart
+        ? `Your match in ${this.matchVenue(match)} starts in ${minutesUntilStart} minutes.`
+        : `Your match in ${this.matchVenue(match)} is ready to start.`,
+      data: { matchId, tournamentId: match.tournamentId, scheduledAt: match.scheduledAt },
       priority: 'HIGH'
     }));
 
@@ -122,7 +178,104 @@ export class NotificationService {
     // Broadcast to match room
     this.io.to(`match:${matchId}`).emit('match_ready', {
       matchId,
-      tournamentName: match.tournament.name
+      tournamentName: match.tournament?.name,
+      scheduledAt: match.scheduledAt
+    });
+  }
+
+  async notifyScheduleProposal(matchId: string, proposedBy: string, proposedTime: Date): Promise<void> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        tournament: true
+      }
+    });
+
+    if (!match) return;
+
+    const notifications: NotificationData[] = match.participants
+      .filter(participant => participant.userId && participant.userId !== proposedBy)
+      .map(participant => ({
+        userId: participant.userId!,
+        type: 'MATCH_READY',
+        title: 'Match Time Proposed',
+        message: `Your opponent proposed a time for your match in ${this.matchVenue(match)}. Accept it or suggest another.`,
+        data: { matchId, tournamentId: match.tournamentId, proposedTime },
+        priority: 'MEDIUM'
+      }));
+
+    await this.sendBulkNotifications(notifications);
+
+    this.io.to(`match:${matchId}`).emit('schedule_proposed', {
+      matchId,
+      proposedBy,
+      proposedTime
+    });
+  }
+
+  async notifyMatchScheduled(matchId: string, scheduledAt: Date, usedDefault: boolean): Promise<void> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        tournament: true
+      }
+    });
+
+    if (!match) return;
+
+    const notifications: NotificationData[] = match.participants
+      .filter(participant => participant.userId)
+      .map(participant => ({
+        userId: participant.userId!,
+        type: 'MATCH_READY',
+        title: 'Match Scheduled',
+        message: usedDefault
+          ? `No time was agreed for your match in ${this.matchVenue(match)}, so the organizer's default slot applies.`
+          : `The time for your match in ${this.matchVenue(match)} has been agreed.`,
+        data: { matchId, tournamentId: match.tournamentId, scheduledAt },
+        priority: 'MEDIUM'
+      }));
+
+    await this.sendBulkNotifications(notifications);
+
+    this.io.to(`match:${matchId}`).emit('match_scheduled', {
+      matchId,
+      scheduledAt,
+      usedDefault
+    });
+  }
+
+  async notifyResultReported(matchId: string, reportedBy: string, confirmBy: Date): Promise<void> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: true,
+        tournament: true
+      }
+    });
+
+    if (!match) return;
+
+    const notifications: NotificationData[] = match.participants
+      .filter(participant => participant.userId && participant.userId !== reportedBy)
+      .map(participant => ({
+        userId: participant.userId!,
+        type: 'MATCH_RESULT',
+        title: 'Confirm Match Result',
+        message: `Your opponent reported a result for your match in ${this.matchVenue(match)}. Confirm or report your own score before it is confirmed automatically.`,
+        data: { matchId, tournamentId: match.tournamentId, confirmBy },
+        priority: 'HIGH'
+      }));
+
+    await this.sendBulkNotifications(notifications);
+
+    // Broadcast to match room
+    this.io.to(`match:${matchId}`).emit('result_reported', {
+      matchId,
+      reportedBy,
+      confirmBy
     });
   }
 
@@ -131,7 +284,10 @@ export class NotificationService {
       where: { id: matchId },
       include: {
         tournament: true,
-        results: { where: { status: 'VALIDATED' } }
+        results: {
+          where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+          orderBy: { submittedAt: 'desc' }
+        }
       }
     });
 
@@ -144,7 +300,7 @@ export class NotificationService {
       userId: winnerId,
       type: 'MATCH_RESULT',
       title: 'Victory! 🏆',
-      message: `You won your match in ${match.tournament.name}!`,
+      message: `You won your match in ${this.matchVenue(match)}!`,
       data: { 
         matchId, 
         tournamentId: match.tournamentId,
@@ -159,7 +315,7 @@ export class NotificationService {
       userId: loserId,
       type: 'MATCH_RESULT',
       title: 'Match Complete',
-      message: `Your match in ${match.tournament.name} has ended.`,
+      message: `Your match in ${this.matchVenue(match)} has ended.`,
       data: { 
         matchId, 
         tournamentId: match.tournamentId,
@@ -169,13 +325,15 @@ export class NotificationService {
       priority: 'MEDIUM'
     });
 
-    // Broadcast to tournament room
-    this.io.to(`tournament:${match.tournamentId}`).emit('match_completed', {
+    // Broadcast to tournament and match rooms
+    const completed = {
       matchId,
       winnerId,
       loserId,
       score: `${result.player1Score}-${result.player2Score}`
-    });
+    };
+    this.io.to(`tournament:${match.tournamentId}`).emit('match_completed', completed);
+    this.io.to(`match:${matchId}`).emit('match_completed', completed);
   }
 
   // ===== DISPUTE NOTIFICATIONS =====
@@ -189,17 +347,19 @@ export class NotificationService {
       }
     });
 
-    if (!dispute) return;
-
-    // Notify tournament organizer
-    await this.sendNotification({
-      userId: dispute.match.tournament.organizerId,
-      type: 'DISPUTE_RESOLVED',
-      title: 'New Dispute Reported',
-      message: `A dispute has been reported for a match in ${dispute.match.tournament.name}.`,
-      data: { disputeId, matchId: dispute.matchId },
-      priority: 'HIGH'
-    });
+    if (!dispute || !dispute.match) return;
+
+    // Notify tournament organizer; ranked matches go straight to the arbiters
+    if (dispute.match.tournament) {
+      await this.sendNotification({
+        userId: dispute.match.tournament.organizerId,
+        type: 'DISPUTE_RESOLVED',
+        title: 'New Dispute Reported',
+        message: `A dispute has been reported for a match in ${dispute.match.tournament.name}.`,
+        data: { disputeId, matchId: dispute.matchId },
+        priority: 'HIGH'
+      });
+    }
 
     // Broadcast to tournament room
     this.io.to(`tournament:${dispute.match.tournamentId}`).emit('dispute_created', {
@@ -221,13 +381,13 @@ export class NotificationService {
       }
     });
 
-    if (!dispute) return;
+    if (!dispute || !dispute.match) return;
 
     const notifications: NotificationData[] = dispute.match.participants.map(participant => ({
       userId: participant.userId!,
       type: 'DISPUTE_RESOLVED',
       title: 'Dispute Resolved',
-      message: `The dispute for your match in ${dispute.match.tournament.name} has been resolved.`,
+      message: `The dispute for your match in ${this.matchVenue(dispute.match!)} has been resolved.`,
       data: { 
         disputeId, 
         matchId: dispute.matchId,
@@ -239,6 +399,78 @@ export class NotificationService {
     await this.sendBulkNotifications(notifications);
   }
 
+  async notifyArbiterAssigned(disputeId: string, arbiterId: string, dueAt: Date): Promise<void> {
+    await this.sendNotification({
+      userId: arbiterId,
+      type: 'DISPUTE_RESOLVED',
+      title: 'Dispute Assigned',
+      message: `You've been assigned a dispute. Please vote by ${dueAt.toUTCString()}.`,
+      data: { disputeId, dueAt },
+      priority: 'HIGH'
+    });
+  }
+
+  async notifyArbitrationReminder(disputeId: string, arbiterId: string, dueAt: Date): Promise<void> {
+    await this.sendNotification({
+      userId: arbiterId,
+      type: 'DISPUTE_RESOLVED',
+      title: 'Vote Needed',
+      message: `Your vote on an assigned dispute is due by ${dueAt.toUTCString()}. ` +
+        'The dispute is reassigned if you miss it.',
+      data: { disputeId, dueAt },
+      priority: 'HIGH'
+    });
+  }
+
+  async notifyArbiterReplaced(disputeId: string, arbiterId: string): Promise<void> {
+    await this.sendNotification({
+      userId: arbiterId,
+      type: 'DISPUTE_RESOLVED',
+      title: 'Dispute Reassigned',
+      message: 'You missed the voting deadline on a dispute, so it has been given to another arbiter.',
+      data: { disputeId },
+      priority: 'MEDIUM'
+    });
+  }
+
+  async notifyArbiterStatus(userId: string, status: string, reason?: string): Promise<void> {
+    const messages: Record<string, string> = {
+      PROBATION: 'Your arbiter application was approved. You\'ll shadow-vote on real disputes until your accuracy qualifies you.',
+      ACTIVE: 'You\'re now a full arbiter. Your votes count towards dispute decisions.',
+      SUSPENDED: 'Your arbiter status has been suspended.',
+      REMOVED: 'You have been removed from the arbiter pool.'
+    };
+
+    if (!messages[status]) return;
+
+    await this.sendNotification({
+      userId,
+      type: 'SYSTEM',
+      title: 'Arbiter Status Updated',
+      message: reason ? `${messages[status]} Reason: ${reason}` : messages[status],
+      data: { status, reason },
+      priority: status === 'ACTIVE' || status === 'PROBATION' ? 'MEDIUM' : 'HIGH'
+    });
+  }
+
+  async notifyDisputeEscalated(disputeId: string, reason: string): Promise<void> {
+    const admins = await this.prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+      select: { id: true }
+    });
+
+    const notifications: NotificationData[] = admins.map(admin => ({
+      userId: admin.id,
+      type: 'DISPUTE_RESOLVED',
+      title: 'Dispute Escalated',
+      message: `A dispute needs an admin decision: ${reason}.`,
+      data: { disputeId, reason },
+      priority: 'CRITICAL'
+    }));
+
+    await this.sendBulkNotifications(notifications);
+  }
+
   // ===== PRIZE NOTIFICATIONS =====
 
   async notifyPrizeAwarded(userId: string, tournamentId: string, position: number, amount: number): Promise<void> {
@@ -265,6 +497,68 @@ export class NotificationService {
     });
   }
 
+  // ===== MATCHMAKING NOTIFICATIONS =====
+
+  async notifyMatchFound(matchId: string): Promise<void> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participants: {
+          include: {
+            user: { select: { id: true, username: true, displayName: true, currentElo: true } }
+          }
+        }
+      }
+    });
+
+    if (!match) return;
+
+    for (const participant of match.participants) {
+      const opponent = match.participants.find(p => p.userId !== participant.userId)?.user;
+      if (!participant.userId || !opponent) continue;
+
+      await this.sendNotification({
+        userId: participant.userId,
+        type: 'MATCH_READY',
+        title: 'Opponent Found',
+        message: `You've been matched with ${opponent.displayName || opponent.username}. Check in to start your ranked match.`,
+        data: { matchId, opponentId: opponent.id },
+        priority: 'HIGH'
+      });
+
+      this.io.to(`user:${participant.userId}`).emit('match_found', {
+        matchId,
+        gameMode: match.gameMode,
+        platform: match.platform,
+        opponent
+      });
+    }
+  }
+
+  async notifyMatchmakingExpired(userId: string, gameMode: string): Promise<void> {
+    this.io.to(`user:${userId}`).emit('matchmaking_expired', {
+      gameMode,
+      message: 'No opponent was found in time. Join the queue again to keep searching.'
+    });
+  }
+
+  // ===== LADDER NOTIFICATIONS =====
+
+  async notifyDivisionChange(userId: string, seasonName: string, division: string, promoted: boolean): Promise<void> {
+    const divisionName = division.charAt(0) + division.slice(1).toLowerCase();
+
+    await this.sendNotification({
+      userId,
+      type: 'SYSTEM',
+      title: promoted ? 'Promoted! 📈' : 'Relegated',
+      message: promoted
+        ? `You've been promoted to ${divisionName} in ${seasonName}.`
+        : `You've dropped to ${divisionName} in ${seasonName}. Win a few matches to climb back up.`,
+      data: { seasonName, division, promoted },
+      priority: promoted ? 'MEDIUM' : 'LOW'
+    });
+  }
+
   // ===== SYSTEM NOTIFICATIONS =====
 
   async notifySystemMaintenance(userIds: string[], scheduledTime: Date): Promise<void> {
@@ -387,6 +681,11 @@ export class NotificationService {
 
   // ===== HELPER METHODS =====
 
+  // Where a match is played, for messages: its tournament, or ranked play
+  private matchVenue(match: { tournament: { name: string } | null }): string {
+    return match.tournament?.name || 'ranked play';
+  }
+
   private getPositionText(position: number): string {
     if (position === 1) return '1st place';
     if (position === 2) return '2nd place';
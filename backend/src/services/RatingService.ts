@@ -0,0 +1,278 @@
+import { PrismaClient, GameMode, DisputeStatus, PlayerRating } from '@prisma/client';
+import { LadderService } from './LadderService';
+import { GlickoUtils, GlickoRating, DEFAULT_DEVIATION, DEFAULT_VOLATILITY } from '../utils/glicko2';
+
+interface RatedSide {
+  userId: string | null;
+  teamId: string | null;
+  score: number;
+}
+
+// A match under dispute isn't rated until the dispute is settled
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'UNDER_REVIEW', 'ESCALATED'];
+
+export class RatingService {
+  constructor(
+    private prisma: PrismaClient,
+    private ladderService?: LadderService
+  ) {}
+
+  // ===== RATING UPDATES =====
+
+  /**
+   * Rate a completed match for both sides at once, each against the other's
+   * rating from before the match. Walkovers and matches that were already
+   * rated are skipped, as are disputed matches until arbitration settles them.
+   */
+  async applyMatchResult(matchId: string) {
+    const match = await this.prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        tournament: { select: { gameMode: true } },
+        participants: { orderBy: { side: 'asc' } },
+        disputes: { where: { status: { in: OPEN_DISPUTE_STATUSES } } },
+        ratingHistory: { take: 1 }
+      }
+    });
+
+    if (!match || match.status !== 'COMPLETED') return null;
+    if (match.disputes.length > 0 || match.ratingHistory.length > 0) return null;
+    if (match.participants.length !== 2) return null;
+
+    const sides: RatedSide[] = match.participants.map(p => ({
+      userId: p.userId,
+      teamId: p.teamId,
+      score: !match.winnerId ? 0.5 : (p.userId || p.teamId) === match.winnerId ? 1 : 0
+    }));
+
+    const gameMode = match.gameMode || match.tournament?.gameMode;
+    if (!gameMode) return null;
+
+    const ratings = await Promise.all(sides.map(side => this.getOrCreateRating(side, gameMode)));
+    const now = new Date();
+    const before = ratings.map(rating => GlickoUtils.decay(this.toGlicko(rating), rating.lastPlayedAt, now));
+
+    const after = sides.map((side, i) =>
+      GlickoUtils.update(before[i], [{ opponent: before[1 - i], score: side.score }])
+    );
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const saved: PlayerRating[] = [];
+
+      for (let i = 0; i < sides.length; i++) {
+        const rating = await tx.playerRating.update({
+          where: { id: ratings[i].id },
+          data: {
+            ...after[i],
+            matchesPlayed: { increment: 1 },
+            lastPlayedAt: now
+          }
+        });
+
+        await tx.ratingHistory.create({
+          data: {
+            ratingId: rating.id,
+            matchId,
+            score: sides[i].score,
+            opponentRating: before[1 - i].rating,
+            ratingBefore: before[i].rating,
+            ratingAfter: after[i].rating,
+            deviationBefore: before[i].deviation,
+            deviationAfter: after[i].deviation,
+            volatilityBefore: before[i].volatility,
+            volatilityAfter: after[i].volatility
+          }
+        });
+
+        saved.push(rating);
+      }
+
+      return saved;
+    });
+
+    for (let i = 0; i < sides.length; i++) {
+      await this.syncProfileRating(sides[i]);
+
+      if (sides[i].userId) {
+        await this.ladderService?.recordMatch(sides[i].userId!, gameMode, after[i].rating, sides[i].score);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Take a match's rating changes back, e.g. when an appeal overturns its
+   * result, so the match can be rated again. If it was the player's latest
+   * rated game the rating, deviation and volatility go back to where they
+   * stood before it. Otherwise games rated since keep their own changes and
+   * only this match's rating delta is removed.
+   */
+  async revertMatch(matchId: string) {
+    const history = await this.prisma.ratingHistory.findMany({ where: { matchId } });
+    if (history.length === 0) return [];
+
+    const reverted = await this.prisma.$transaction(async (tx) => {
+      const saved: PlayerRating[] = [];
+
+      for (const entry of history) {
+        const ratedSince = await tx.ratingHistory.count({
+          where: { ratingId: entry.ratingId, createdAt: { gt: entry.createdAt } }
+        });
+
+        // The "before" values already include inactivity decay up to this
+        // match, which is why lastPlayedAt stays at the match
+        saved.push(await tx.playerRating.update({
+          where: { id: entry.ratingId },
+          data: ratedSince === 0
+            ? {
+              rating: entry.ratingBefore,
+              deviation: entry.deviationBefore,
+              volatility: entry.volatilityBefore,
+              matchesPlayed: { decrement: 1 }
+            }
+            : {
+              rating: { decrement: entry.ratingAfter - entry.ratingBefore },
+              matchesPlayed: { decrement: 1 }
+            }
+        }));
+      }
+
+      await tx.ratingHistory.deleteMany({ where: { matchId } });
+
+      return saved;
+    });
+
+    for (let i = 0; i < reverted.length; i++) {
+      const rating = reverted[i];
+      const side: RatedSide = { userId: rating.userId, teamId: rating.teamId, score: history[i].score };
+
+      await this.syncProfileRating(side);
+
+      if (side.userId) {
+        await this.ladderService?.revertMatch(side.userId, rating.gameMode, rating.rating, side.score);
+      }
+    }
+
+    return reverted;
+  }
+
+  // ===== QUERIES =====
+
+  // Ratings as they stand today, with inactivity already widening the deviation
+  async getRatings(userId: string) {
+    const ratings = await this.prisma.playerRating.findMany({
+      where: { userId },
+      orderBy: { gameMode: 'asc' }
+    });
+
+    return ratings.map(rating => ({
+      ...rating,
+      ...GlickoUtils.decay(this.toGlicko(rating), rating.lastPlayedAt)
+    }));
+  }
+
+  // Rating in one game mode; a player without one yet counts at their profile rating
+  async getRating(userId: string, gameMode: GameMode): Promise<GlickoRating> {
+    const rating = await this.prisma.playerRating.findUnique({
+      where: { userId_gameMode: { userId, gameMode } }
+    });
+
+    if (rating) {
+      return GlickoUtils.decay(this.toGlicko(rating), rating.lastPlayedAt);
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { currentElo: true }
+    });
+
+    return {
+      rating: user?.currentElo ?? 1500,
+      deviation: DEFAULT_DEVIATION,
+      volatility: DEFAULT_VOLATILITY
+    };
+  }
+
+  async getHistory(userId: string, gameMode?: GameMode, limit: number = 50) {
+    return await this.prisma.ratingHistory.findMany({
+      where: {
+        playerRating: { userId, gameMode }
+      },
+      include: {
+        playerRating: { select: { gameMode: true } },
+        match: { select: { id: true, tournamentId: true, round: true, completedAt: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  // ===== HELPER METHODS =====
+
+  // A player's first rating in a mode starts from their profile rating
+  private async getOrCreateRating(side: RatedSide, gameMode: GameMode): Promise<PlayerRating> {
+    const existing = await this.prisma.playerRating.findFirst({
+      where: side.userId ? { userId: side.userId, gameMode } : { teamId: side.teamId, gameMode }
+    });
+
+    if (existing) return existing;
+
+    const profile = side.userId
+      ? await this.prisma.user.findUnique({ where: { id: side.userId }, select: { currentElo: true } })
+      : await this.prisma.team.findUnique({ where: { id: side.teamId! }, select: { currentElo: true } });
+
+    return await this.prisma.playerRating.create({
+      data: {
+        userId: side.userId,
+        teamId: side.userId ? null : side.teamId,
+        gameMode,
+        rating: profile?.currentElo ?? 1500,
+        deviation: DEFAULT_DEVIATION,
+        volatility: DEFAULT_VOLATILITY
+      }
+    });
+  }
+
+  // The profile rating is the best of the player's game modes, so it stays put
+  // when they play a mode they're weaker at
+  private async syncProfileRating(side: RatedSide) {
+    const best = await this.prisma.playerRating.aggregate({
+      where: side.userId ? { userId: side.userId } : { teamId: side.teamId },
+      _max: { rating: true }
+    });
+
+    if (best._max.rating === null) return;
+    const rating = Math.round(best._max.rating);
+
+    if (side.userId) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: side.userId },
+        select: { peakElo: true }
+      });
+
+      await this.prisma.user.update({
+        where: { id: side.userId },
+        data: {
+          currentElo: rating,
+          peakElo: Math.max(user?.peakElo ?? 0, rating)
+        }
+      });
+    } else if (side.teamId) {
+      await this.prisma.team.update({
+        where: { id: side.teamId },
+        data: { currentElo: rating }
+      });
+    }
+  }
+
+  private toGlicko(rating: PlayerRating): GlickoRating {
+    return {
+      rating: rating.rating,
+      deviation: rating.deviation,
+      volatility: rating.volatility
+    };
+  }
+}
+
+export default RatingService;
@@ -148,9 +148,9 @@ export class RedisService {
     await this.client.zAdd(key, { score, value: userId });
   }
 
-  async getLeaderboard(leaderboardName: string, limit: number = 10): Promise<Array<{userId: string, score: number}>> {
+  async getLeaderboard(leaderboardName: string, limit: number = 10, offset: number = 0): Promise<Array<{userId: string, score: number}>> {
     const key = `leaderboard:${leaderboardName}`;
-    const results = await this.client.zRangeWithScores(key, 0, limit - 1, { REV: true });
+    const results = await this.client.zRangeWithScores(key, offset, offset + limit - 1, { REV: true });
     
     return results.map(result => ({
       userId: result.value,
@@ -158,6 +158,34 @@ export class RedisService {
     }));
   }
 
+  // 1-based rank, highest score first
+  async getLeaderboardRank(leaderboardName: string, userId: string): Promise<number | null> {
+    const key = `leaderboard:${leaderboardName}`;
+    const rank = await this.client.zRevRank(key, userId);
+    return rank === null ? null : rank + 1;
+  }
+
+  async getLeaderboardSize(leaderboardName: string): Promise<number> {
+    return await this.client.zCard(`leaderboard:${leaderboardName}`);
+  }
+
+  async deleteLeaderboard(leaderboardName: string): Promise<void> {
+    await this.del(`leaderboard:${leaderboardName}`);
+  }
+
+  // Matchmaking pools: players waiting for an opponent, scored by rating
+  async addToPool(pool: string, userId: string, rating: number): Promise<void> {
+    await this.client.zAdd(`matchmaking:pool:${pool}`, { score: rating, value: userId });
+  }
+
+  async removeFromPool(pool: string, userId: string): Promise<void> {
+    await this.client.zRem(`matchmaking:pool:${pool}`, userId);
+  }
+
+  async getPool(pool: string): Promise<string[]> {
+    return await this.client.zRange(`matchmaking:pool:${pool}`, 0, -1);
+  }
+
   // Lock mechanism for critical operations
   async acquireLock(lockKey: string, ttl: number = 30): Promise<boolean> {
     const key = `lock:${lockKey}`;
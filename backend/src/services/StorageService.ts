@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Object storage backend. Keys are '/'-separated and never user supplied
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export interface StoredObject {
+  key: string;
+  sha256: string;
+  size: number;
+  deduplicated: boolean;      // The same content was already stored
+}
+
+export interface SignedUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+// How long a signed download link stays valid by default
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename, so a reader never sees a half-written object
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, file);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const file = this.resolve(key);
+    if (!await this.exists(key)) {
+      throw new Error('Object not found');
+    }
+
+    return fs.createReadStream(file);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(root, key);
+
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+
+    return file;
+  }
+}
+
+export class StorageService {
+  private readonly signingSecret: string;
+
+  constructor(private driver: StorageDriver) {
+    this.signingSecret = process.env.STORAGE_SIGNING_SECRET || 'your-storage-secret';
+
+    if (!process.env.STORAGE_SIGNING_SECRET) {
+      console.warn('⚠️ STORAGE_SIGNING_SECRET not set in environment variables');
+    }
+  }
+
+  // ===== OBJECTS =====
+
+  /**
+   * Store content under its SHA-256, so uploading the same file twice keeps
+   * one copy. The prefix directory keeps any one folder from growing huge.
+   */
+  async putContent(prefix: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+    const key = `${prefix}/${sha256.slice(0, 2)}/${sha256}`;
+
+    const deduplicated = await this.driver.exists(key);
+    if (!deduplicated) {
+      await this.driver.put(key, data, contentType);
+    }
+
+    return { key, sha256, size: data.length, deduplicated };
+  }
+
+  async get(key: string): Promise<Readable> {
+    return await this.driver.get(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.driver.delete(key);
+  }
+
+  // ===== SIGNED URLS =====
+
+  // The signature covers the resource and its expiry, so neither can be edited
+  signUrl(resource: string, ttlSeconds: number = DEFAULT_URL_TTL_SECONDS): SignedUrl {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const signature = this.sign(resource, expires);
+
+    return {
+      url: `${resource}?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
+  }
+
+  verifySignature(resource: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.sign(resource, expires));
+    const given = Buffer.from(signature);
+
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  private sign(resource: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${resource}:${expires}`)
+      .digest('hex');
+  }
+}
+
+export default StorageService;
@@ -0,0 +1,216 @@
+import { PrismaClient } from '@prisma/client';
+import { Queue, Job } from 'bull';
+import { z } from 'zod';
+import { TournamentService } from './TournamentService';
+import { NotificationService } from './NotificationService';
+import { ScheduleUtils } from '../utils/scheduler';
+
+const SchedulePlanSchema = z.object({
+  startAt: z.coerce.date(),
+  stations: z.number().int().min(1).max(64).default(4),
+  streamSlots: z.number().int().min(0).max(8).default(1),
+  restMinutes: z.number().int().min(0).max(120).default(15),
+  defaultMatchMinutes: z.number().int().min(5).max(240).default(30)
+});
+
+// How long past its expected end a match may run before the day is re-planned
+const OVERRUN_GRACE_MINUTES = 5;
+
+export class TournamentScheduleService {
+  constructor(
+    private prisma: PrismaClient,
+    private tournamentService: TournamentService,
+    private notificationService?: NotificationService,
+    private scheduleQueue?: Queue
+  ) {
+    this.scheduleQueue?.process((job: Job) => this.runOverrunCheck(job.data.tournamentId));
+  }
+
+  // ===== PLANNING =====
+
+  async planTournament(tournamentId: string, data: any, organizerId: string) {
+    const validated = SchedulePlanSchema.parse(data);
+
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id: tournamentId, organizerId }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found or access denied');
+    }
+
+    await this.prisma.tournamentSchedule.upsert({
+      where: { tournamentId },
+      create: { tournamentId, ...validated },
+      update: { ...validated, plannedAt: new Date() }
+    });
+
+    return await this.replan(tournamentId);
+  }
+
+  async getSchedule(tournamentId: string) {
+    const schedule = await this.prisma.tournamentSchedule.findUnique({
+      where: { tournamentId }
+    });
+
+    const matches = await this.prisma.match.findMany({
+      where: { tournamentId, scheduledAt: { not: null } },
+      select: {
+        id: true,
+        round: true,
+        position: true,
+        matchNumber: true,
+        status: true,
+        scheduledAt: true,
+        startedAt: true,
+        completedAt: true,
+        station: true
+      },
+      orderBy: [{ scheduledAt: 'asc' }, { station: 'asc' }]
+    });
+
+    return { schedule, matches };
+  }
+
+  /**
+   * Place every match that hasn't started, using the tournament's own average
+   * match length once it has one. Matches whose time the players agreed on
+   * keep it.
+   */
+  async replan(tournamentId: string) {
+    const schedule = await this.prisma.tournamentSchedule.findUnique({
+      where: { tournamentId }
+    });
+
+    if (!schedule) {
+      throw new Error('Tournament has no schedule to plan');
+    }
+
+    const matchMinutes = await this.getMatchMinutes(tournamentId, schedule.defaultMatchMinutes);
+
+    const matches = await this.prisma.match.findMany({
+      where: { tournamentId, status: { not: 'CANCELLED' } },
+      include: {
+        participants: true,
+        stream: { select: { id: true } },
+        scheduleProposals: { where: { status: 'ACCEPTED' }, take: 1 }
+      }
+    });
+
+    const feeders = new Map<string, string[]>();
+    for (const match of matches) {
+      for (const target of [match.nextMatchId, match.loserNextMatchId]) {
+        if (target) feeders.set(target, [...(feeders.get(target) || []), match.id]);
+      }
+    }
+
+    const plan = ScheduleUtils.plan(
+      matches.map(match => ({
+        id: match.id,
+        round: match.round,
+        position: match.position,
+        participants: match.participants.map(p => (p.userId || p.teamId)!),
+        feederIds: feeders.get(match.id) || [],
+        streamed: !!match.stream || !!match.streamUrl,
+        closed: ['COMPLETED', 'WALKOVER'].includes(match.status),
+        startedAt: match.startedAt,
+        completedAt: match.completedAt,
+        fixedStart: match.scheduleProposals.length > 0 ? match.scheduledAt : null
+      })),
+      {
+        startAt: schedule.startAt,
+        stations: schedule.stations,
+        streamSlots: schedule.streamSlots,
+        restMinutes: schedule.restMinutes,
+        matchMinutes
+      }
+    );
+
+    for (const planned of plan) {
+      await this.prisma.match.update({
+        where: { id: planned.matchId },
+        data: {
+          scheduledAt: planned.scheduledAt,
+          station: planned.station
+        }
+      });
+    }
+
+    await this.scheduleOverrunCheck(tournamentId, matchMinutes);
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      type: 'schedule_updated',
+      matchMinutes
+    });
+
+    return { matchMinutes, matches: plan };
+  }
+
+  // ===== OVERRUNS =====
+
+  private async runOverrunCheck(tournamentId: string) {
+    const schedule = await this.prisma.tournamentSchedule.findUnique({
+      where: { tournamentId },
+      include: { tournament: { select: { status: true } } }
+    });
+
+    if (!schedule || schedule.tournament.status !== 'LIVE') return;
+
+    const matchMinutes = await this.getMatchMinutes(tournamentId, schedule.defaultMatchMinutes);
+    const cutoff = new Date(Date.now() - (matchMinutes + OVERRUN_GRACE_MINUTES) * 60 * 1000);
+
+    const overrunning = await this.prisma.match.count({
+      where: {
+        tournamentId,
+        status: { in: ['LIVE', 'WAITING_RESULTS'] },
+        startedAt: { lte: cutoff }
+      }
+    });
+
+    if (overrunning > 0) {
+      await this.replan(tournamentId);
+    } else {
+      await this.scheduleOverrunCheck(tournamentId, matchMinutes);
+    }
+  }
+
+  // Check again once the next match in play is due to finish
+  private async scheduleOverrunCheck(tournamentId: string, matchMinutes: number) {
+    if (!this.scheduleQueue) return;
+
+    const next = await this.prisma.match.findFirst({
+      where: {
+        tournamentId,
+        status: { in: ['PENDING', 'READY', 'LIVE', 'WAITING_RESULTS'] },
+        OR: [{ startedAt: { not: null } }, { scheduledAt: { not: null } }]
+      },
+      orderBy: [{ startedAt: 'asc' }, { scheduledAt: 'asc' }]
+    });
+
+    const jobId = `${tournamentId}:overrun-check`;
+    const existing = await this.scheduleQueue.getJob(jobId);
+    await existing?.remove();
+
+    if (!next) return;
+
+    const start = (next.startedAt || next.scheduledAt)!.getTime();
+    const checkAt = start + (matchMinutes + OVERRUN_GRACE_MINUTES) * 60 * 1000;
+
+    await this.scheduleQueue.add(
+      { tournamentId },
+      {
+        jobId,
+        delay: Math.max(OVERRUN_GRACE_MINUTES * 60 * 1000, checkAt - Date.now()),
+        removeOnComplete: true
+      }
+    );
+  }
+
+  // ===== HELPER METHODS =====
+
+  private async getMatchMinutes(tournamentId: string, fallback: number): Promise<number> {
+    const stats = await this.tournamentService.getTournamentStats(tournamentId);
+    return Math.round(stats.averageMatchDuration) || fallback;
+  }
+}
+
+export default TournamentScheduleService;
@@ -1,5 +1,14 @@
 import { PrismaClient, TournamentFormat, TournamentStatus, GameMode } from '@prisma/client';
 import { AIService } from './AIService';
+import { NotificationService } from './NotificationService';
+import { ELIMINATION_BRACKETS } from './BracketService';
+import { TournamentLifecycle } from '../utils/tournamentLifecycle';
+import { Queue, Job } from 'bull';
+import { BracketUtils } from '../utils/bracket';
+import { SwissUtils } from '../utils/swiss';
+import { RoundRobinUtils } from '../utils/roundRobin';
+import { LeagueUtils } from '../utils/league';
+import { MatchResultUtils } from '../utils/matchResult';
 import { z } from 'zod';
 
 // Validation schemas
@@ -18,25 +27,59 @@ const CreateTournamentSchema = z.object({
   entryFee: z.number().min(0).default(0),
   prizePool: z.number().min(0).default(0),
   isPublic: z.boolean().default(true),
-  requiresApproval: z.boolean().default(false)
+  requiresApproval: z.boolean().default(false),
+  resultConfirmationMinutes: z.number().int().min(5).max(1440).default(30),
+  noShowMinutes: z.number().int().min(5).max(120).default(15)
+});
+
+const UpdateSeedsSchema = z.object({
+  seeds: z.array(z.object({
+    participantId: z.string(),
+    seed: z.number().int().min(1),
+    pinned: z.boolean().default(false)
+  })).min(1)
 });
 
 const BracketGenerationSchema = z.object({
   tournamentId: z.string(),
-  seedingMethod: z.enum(['random', 'elo', 'manual']).default('elo'),
-  groupSize: z.number().min(2).max(8).optional()
+  // hybrid: ELO order around seeds the organizer has pinned
+  seedingMethod: z.enum(['random', 'elo', 'manual', 'hybrid']).default('elo'),
+  // Keep players from the same country (region) or team (club) apart in round 1
+  separateBy: z.enum(['none', 'region', 'club']).default('none'),
+  groupSize: z.number().min(2).max(8).optional(),
+  grandFinalReset: z.boolean().default(true),
+  doubleRoundRobin: z.boolean().default(false),
+  matchdayIntervalDays: z.number().min(1).max(30).default(7),
+  groupCount: z.number().min(2).max(32).optional(),
+  qualifiersPerGroup: z.number().min(1).max(8).default(2),
+  // adjacent: A1 v B2, B1 v A2 (World Cup style); seeded: rank all qualifiers
+  // by group finish and seed the knockout like a single-elimination field
+  crossGroupPairing: z.enum(['adjacent', 'seeded']).default('adjacent'),
+  bestOf: z.number().int().min(1).max(9).default(1),
+  bestOfByRound: z.record(z.union([z.string().regex(/^\d+$/), z.literal('final')]), z.number().int().min(1).max(9)).optional(),
+  // Settles level two-leg ties: aggregate goals, then away goals
+  seriesTiebreak: z.enum(['NONE', 'AGGREGATE', 'AWAY_GOALS']).default('NONE')
 });
 
-interface BracketNode {
-  id: string;
-  round: number;
-  position: number;
-  participants: string[];
-  winner?: string;
-  status: 'pending' | 'ready' | 'completed';
-  children?: BracketNode[];
+type BracketOptions = z.infer<typeof BracketGenerationSchema>;
+
+interface MatchLinks {
+  next?: { matchId: string; side: number };
+  loserNext?: { matchId: string; side: number };
+  matchNumber?: string;
+  scheduledAt?: Date;
 }
 
+type LifecycleJob =
+  | 'open-registration'
+  | 'close-registration'
+  | 'start-tournament'
+  | 'check-in-reminder'
+  | 'close-check-in';
+
+// Minutes before check-in closes at which unchecked players are reminded
+const CHECK_IN_REMINDERS = [15, 5];
+
 interface TournamentStats {
   totalParticipants: number;
   completedMatches: number;
@@ -44,13 +87,25 @@ interface TournamentStats {
   averageMatchDuration: number;
   topPerformers: any[];
   upsetCount: number;
+  extraTimeMatches: number;
+  penaltyShootouts: number;
+  walkovers: number;
 }
 
 export class TournamentService {
   constructor(
     private prisma: PrismaClient,
-    private aiService: AIService
-  ) {}
+    private aiService: AIService,
+    private notificationService?: NotificationService,
+    private lifecycleQueue?: Queue
+  ) {
+    this.lifecycleQueue?.process((job: Job) =>
+      this.runLifecycleJob(job.data.type, job.data.tournamentId, job.data.minutes)
+    );
+    this.lifecycleQueue?.on('failed', (job: Job, error: Error) =>
+      console.error(`Tournament job ${job.id} failed:`, error)
+    );
+  }
 
   // ===== TOURNAMENT CREATION =====
 
@@ -99,6 +154,8 @@ export class TournamentService {
       }
     });
 
+    await this.scheduleLifecycleJobs(tournament);
+
     return tournament;
   }
 
@@ -118,7 +175,23 @@ export class TournamentService {
       throw new Error('Cannot modify core settings while tournament is live');
     }
 
-    return await this.prisma.tournament.update({
+    if (data.status && data.status !== tournament.status) {
+      TournamentLifecycle.assertTransition(tournament.status, data.status);
+
+      // Check-in needs a window and going live needs brackets, so neither is
+      // a plain status change
+      if (data.status === 'CHECK_IN') {
+        throw new Error('Open check-in with its own endpoint so the check-in window is set');
+      }
+
+      if (data.status === 'LIVE') {
+        await this.startTournament(tournamentId);
+        const { status, ...rest } = data;
+        data = rest;
+      }
+    }
+
+    const updated = await this.prisma.tournament.update({
       where: { id: tournamentId },
       data,
       include: {
@@ -130,6 +203,141 @@ export class TournamentService {
         }
       }
     });
+
+    if (data.status || data.registrationStart || data.registrationEnd || data.tournamentStart) {
+      await this.scheduleLifecycleJobs(updated);
+    }
+
+    return updated;
+  }
+
+  // ===== LIFECYCLE =====
+
+  async transitionStatus(tournamentId: string, status: TournamentStatus) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    TournamentLifecycle.assertTransition(tournament.status, status);
+
+    const updated = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { status }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, { status });
+
+    return updated;
+  }
+
+  async startTournament(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: { _count: { select: { brackets: true } } }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    TournamentLifecycle.assertTransition(tournament.status, 'LIVE');
+
+    // Starting ends any check-in window still running
+    if (tournament.status === 'CHECK_IN' && tournament.checkInEnd && new Date() < tournament.checkInEnd) {
+      await this.prisma.tournament.update({
+        where: { id: tournamentId },
+        data: { checkInEnd: new Date() }
+      });
+    }
+
+    if (tournament._count.brackets === 0) {
+      await this.generateBrackets({ tournamentId });
+    }
+
+    const updated = await this.transitionStatus(tournamentId, 'LIVE');
+
+    await this.notificationService?.notifyTournamentStart(tournamentId);
+
+    return updated;
+  }
+
+  // One delayed job per lifecycle step, keyed by tournament so rescheduling
+  // replaces the previous job
+  private async scheduleLifecycleJobs(tournament: {
+    id: string;
+    registrationStart: Date;
+    registrationEnd: Date;
+    tournamentStart: Date;
+  }) {
+    if (!this.lifecycleQueue) return;
+
+    const jobs: [LifecycleJob, Date][] = [
+      ['open-registration', tournament.registrationStart],
+      ['close-registration', tournament.registrationEnd],
+      ['start-tournament', tournament.tournamentStart]
+    ];
+
+    for (const [type, runAt] of jobs) {
+      const jobId = `${tournament.id}:${type}`;
+
+      const existing = await this.lifecycleQueue.getJob(jobId);
+      await existing?.remove();
+
+      await this.lifecycleQueue.add(
+        { type, tournamentId: tournament.id },
+        {
+          jobId,
+          delay: Math.max(0, new Date(runAt).getTime() - Date.now()),
+          removeOnComplete: true
+        }
+      );
+    }
+  }
+
+  // Jobs only move a tournament forward from the status they expect, so a
+  // tournament the organizer has already moved on (or cancelled) is left alone
+  private async runLifecycleJob(type: LifecycleJob, tournamentId: string, minutes?: number) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId }
+    });
+
+    if (!tournament) return;
+
+    switch (type) {
+      case 'open-registration':
+        if (tournament.status === 'PUBLISHED') {
+          await this.transitionStatus(tournamentId, 'REGISTRATION_OPEN');
+        }
+        break;
+
+      case 'close-registration':
+        if (tournament.status === 'REGISTRATION_OPEN') {
+          await this.transitionStatus(tournamentId, 'REGISTRATION_CLOSED');
+        }
+        break;
+
+      case 'start-tournament':
+        if (tournament.status === 'REGISTRATION_CLOSED' || tournament.status === 'CHECK_IN') {
+          await this.startTournament(tournamentId);
+        }
+        break;
+
+      case 'check-in-reminder':
+        if (tournament.status === 'CHECK_IN') {
+          await this.notificationService?.notifyCheckInReminder(tournamentId, minutes!);
+        }
+        break;
+
+      case 'close-check-in':
+        if (tournament.status === 'CHECK_IN') {
+          await this.closeCheckIn(tournamentId);
+        }
+        break;
+    }
   }
 
   // ===== PARTICIPANT MANAGEMENT =====
@@ -200,8 +408,7 @@ export class TournamentService {
       }
     });
 
-    // Auto-start tournament if minimum participants reached and auto-start enabled
-    await this.checkAutoStart(tournamentId);
+    await this.closeRegistrationIfFull(tournamentId);
 
     return participant;
   }
@@ -229,105 +436,483 @@ export class TournamentService {
     });
   }
 
+  async updateSeeds(tournamentId: string, userId: string, data: z.input<typeof UpdateSeedsSchema>) {
+    const { seeds } = UpdateSeedsSchema.parse(data);
+
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id: tournamentId, organizerId: userId },
+      include: {
+        participants: true,
+        _count: { select: { brackets: true } }
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found or access denied');
+    }
+
+    if (tournament._count.brackets > 0) {
+      throw new Error('Seeds cannot change once brackets are generated');
+    }
+
+    const participantIds = new Set(tournament.participants.map(p => p.id));
+    const seedNumbers = new Set(seeds.map(s => s.seed));
+
+    if (seeds.some(s => !participantIds.has(s.participantId))) {
+      throw new Error('Participant not found in this tournament');
+    }
+
+    if (seedNumbers.size !== seeds.length) {
+      throw new Error('Each seed can only be assigned once');
+    }
+
+    if (seeds.some(s => s.seed > tournament.participants.length)) {
+      throw new Error('Seed is out of range');
+    }
+
+    // Participants left out of the request lose any previous seed
+    await this.prisma.tournamentParticipant.updateMany({
+      where: { tournamentId, id: { notIn: seeds.map(s => s.participantId) } },
+      data: { seed: null, seedPinned: false }
+    });
+
+    for (const { participantId, seed, pinned } of seeds) {
+      await this.prisma.tournamentParticipant.update({
+        where: { id: participantId },
+        data: { seed, seedPinned: pinned }
+      });
+    }
+
+    return await this.prisma.tournamentParticipant.findMany({
+      where: { tournamentId },
+      orderBy: { seed: 'asc' },
+      include: {
+        user: {
+          select: { id: true, username: true, displayName: true, avatar: true, currentElo: true }
+        },
+        team: {
+          select: { id: true, name: true, tag: true, avatar: true }
+        }
+      }
+    });
+  }
+
+  // ===== CHECK-IN =====
+
+  async startCheckIn(tournamentId: string, userId: string, durationMinutes: number) {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id: tournamentId, organizerId: userId }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found or access denied');
+    }
+
+    TournamentLifecycle.assertTransition(tournament.status, 'CHECK_IN');
+
+    const checkInStart = new Date();
+    const checkInEnd = new Date(checkInStart.getTime() + durationMinutes * 60 * 1000);
+
+    const updated = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        status: 'CHECK_IN',
+        checkInStart,
+        checkInEnd
+      }
+    });
+
+    await this.scheduleCheckIn(tournamentId, checkInEnd);
+
+    await this.notificationService?.notifyCheckInOpen(tournamentId, checkInEnd);
+
+    return updated;
+  }
+
+  async checkIn(tournamentId: string, userId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    if (tournament.status !== 'CHECK_IN' || !tournament.checkInEnd) {
+      throw new Error('Check-in is not open for this tournament');
+    }
+
+    // The close job may not have run yet, so a late check-in closes the window too
+    if (new Date() > tournament.checkInEnd) {
+      await this.closeCheckIn(tournamentId);
+      throw new Error('Check-in window has closed');
+    }
+
+    // Team entries are checked in by their captain or manager
+    const participant = await this.prisma.tournamentParticipant.findFirst({
+      where: {
+        tournamentId,
+        OR: [
+          { userId },
+          {
+            team: {
+              members: {
+                some: { userId, isActive: true, role: { in: ['CAPTAIN', 'MANAGER'] } }
+              }
+            }
+          }
+        ]
+      }
+    });
+
+    if (!participant) {
+      throw new Error('Not registered for this tournament');
+    }
+
+    if (participant.status === 'CHECKED_IN') {
+      return participant;
+    }
+
+    if (participant.status !== 'REGISTERED') {
+      throw new Error('Participant cannot check in');
+    }
+
+    const checkedIn = await this.prisma.tournamentParticipant.update({
+      where: { id: participant.id },
+      data: {
+        status: 'CHECKED_IN',
+        checkedInAt: new Date()
+      }
+    });
+
+    const checkedInCount = await this.prisma.tournamentParticipant.count({
+      where: { tournamentId, status: 'CHECKED_IN' }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      checkedIn: checkedInCount
+    });
+
+    return checkedIn;
+  }
+
+  // Anyone still only registered when the window closes is disqualified.
+  // Safe to call more than once
+  async closeCheckIn(tournamentId: string) {
+    await this.clearCheckInJobs(tournamentId);
+
+    const { count: disqualified } = await this.prisma.tournamentParticipant.updateMany({
+      where: { tournamentId, status: 'REGISTERED' },
+      data: { status: 'DISQUALIFIED' }
+    });
+
+    const checkedIn = await this.prisma.tournamentParticipant.count({
+      where: { tournamentId, status: 'CHECKED_IN' }
+    });
+
+    await this.notificationService?.broadcastTournamentUpdate(tournamentId, {
+      checkInClosed: true,
+      checkedIn,
+      disqualified
+    });
+
+    return { checkedIn, disqualified };
+  }
+
+  // Reminders and the close run as delayed jobs on the lifecycle queue, so
+  // they survive a restart
+  private async scheduleCheckIn(tournamentId: string, checkInEnd: Date) {
+    if (!this.lifecycleQueue) return;
+
+    await this.clearCheckInJobs(tournamentId);
+
+    const remaining = checkInEnd.getTime() - Date.now();
+
+    for (const minutes of CHECK_IN_REMINDERS.filter(minutes => minutes * 60 * 1000 < remaining)) {
+      await this.lifecycleQueue.add(
+        { type: 'check-in-reminder', tournamentId, minutes },
+        {
+          jobId: `${tournamentId}:check-in-reminder:${minutes}`,
+          delay: remaining - minutes * 60 * 1000,
+          removeOnComplete: true
+        }
+      );
+    }
+
+    await this.lifecycleQueue.add(
+      { type: 'close-check-in', tournamentId },
+      {
+        jobId: `${tournamentId}:close-check-in`,
+        delay: Math.max(0, remaining),
+        removeOnComplete: true
+      }
+    );
+  }
+
+  private async clearCheckInJobs(tournamentId: string) {
+    if (!this.lifecycleQueue) return;
+
+    const jobIds = [
+      ...CHECK_IN_REMINDERS.map(minutes => `${tournamentId}:check-in-reminder:${minutes}`),
+      `${tournamentId}:close-check-in`
+    ];
+
+    // The close job itself calls closeCheckIn, and a running job can't be removed
+    for (const jobId of jobIds) {
+      const job = await this.lifecycleQueue.getJob(jobId);
+      if (job && !await job.isActive()) {
+        await job.remove();
+      }
+    }
+  }
+
   // ===== BRACKET GENERATION =====
 
-  async generateBrackets(data: z.infer<typeof BracketGenerationSchema>) {
+  async generateBrackets(data: z.input<typeof BracketGenerationSchema>) {
     const validatedData = BracketGenerationSchema.parse(data);
     const { tournamentId, seedingMethod } = validatedData;
 
     const tournament = await this.prisma.tournament.findUnique({
       where: { id: tournamentId },
-      include: {
-        participants: {
-          include: {
-            user: { select: { id: true, username: true, currentElo: true } },
-            team: { select: { id: true, name: true, currentElo: true } }
-          }
-        }
-      }
+      include: { _count: { select: { brackets: true } } }
     });
 
     if (!tournament) {
       throw new Error('Tournament not found');
     }
 
-    if (tournament.status !== 'REGISTRATION_CLOSED') {
+    if (tournament._count.brackets > 0) {
+      throw new Error('Brackets have already been generated');
+    }
+
+    if (tournament.status === 'CHECK_IN') {
+      if (tournament.checkInEnd && new Date() < tournament.checkInEnd) {
+        throw new Error('Check-in is still open');
+      }
+
+      await this.closeCheckIn(tournamentId);
+    } else if (tournament.status !== 'REGISTRATION_CLOSED') {
       throw new Error('Tournament must be in registration closed state');
     }
 
-    if (tournament.participants.length < tournament.minParticipants) {
+    // Once a check-in window has run, only checked-in players take part
+    const participants = await this.prisma.tournamentParticipant.findMany({
+      where: {
+        tournamentId,
+        status: tournament.checkInEnd
+          ? 'CHECKED_IN'
+          : { notIn: ['DISQUALIFIED', 'WITHDRAWN', 'NO_SHOW'] }
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            currentElo: true,
+            country: true,
+            teamMemberships: { where: { isActive: true }, select: { teamId: true } }
+          }
+        },
+        team: { select: { id: true, name: true, currentElo: true } }
+      }
+    });
+
+    if (participants.length < tournament.minParticipants) {
       throw new Error('Not enough participants to generate brackets');
     }
 
     // Seed participants
     const seededParticipants = await this.seedParticipants(
-      tournament.participants,
+      participants,
       seedingMethod
     );
 
+    await this.persistSeeds(seededParticipants);
+
     // Generate bracket structure based on format
     const brackets = await this.createBracketStructure(
       tournament.format,
       seededParticipants,
-      tournamentId
+      tournamentId,
+      validatedData
     );
 
-    // Update tournament status
-    await this.prisma.tournament.update({
-      where: { id: tournamentId },
-      data: { status: 'CHECK_IN' }
-    });
+    await this.applySeriesLength(tournamentId, validatedData);
 
     return brackets;
   }
 
   private async seedParticipants(participants: any[], method: string) {
+    const byElo = (a: any, b: any) => {
+      const eloA = a.user?.currentElo || a.team?.currentElo || 1200;
+      const eloB = b.user?.currentElo || b.team?.currentElo || 1200;
+      return eloB - eloA; // Highest ELO first
+    };
+
     switch (method) {
       case 'elo':
-        return participants.sort((a, b) => {
-          const eloA = a.user?.currentElo || a.team?.currentElo || 1200;
-          const eloB = b.user?.currentElo || b.team?.currentElo || 1200;
-          return eloB - eloA; // Highest ELO first
-        });
+        return participants.sort(byElo);
       
       case 'random':
         return participants.sort(() => Math.random() - 0.5);
       
       case 'manual':
-        // Return as-is, assuming manual seeding was done elsewhere
-        return participants;
+        // Seeds saved through updateSeeds; anyone left unseeded follows by ELO
+        return participants.sort((a, b) =>
+          (a.seed || Number.MAX_SAFE_INTEGER) - (b.seed || Number.MAX_SAFE_INTEGER) || byElo(a, b)
+        );
+      
+      case 'hybrid': {
+        // Pinned participants keep their seed; everyone else fills the gaps by ELO
+        const seeded: any[] = new Array(participants.length).fill(null);
+        for (const p of participants) {
+          if (p.seedPinned && p.seed && p.seed <= participants.length && !seeded[p.seed - 1]) {
+            seeded[p.seed - 1] = p;
+          }
+        }
+        const rest = participants.filter(p => !seeded.includes(p)).sort(byElo);
+
+        return seeded.map(slot => slot || rest.shift());
+      }
       
       default:
         return participants;
     }
   }
 
+  private separationKeys(participant: any, separateBy: string): string[] {
+    if (separateBy === 'region') {
+      return participant.user?.country ? [participant.user.country] : [];
+    }
+
+    if (separateBy === 'club') {
+      return participant.user?.teamMemberships?.map((m: any) => m.teamId) || [];
+    }
+
+    return [];
+  }
+
+  private getFirstRoundSlots(participants: any[], size: number, options: BracketOptions) {
+    const slots = BracketUtils.getSeedOrder(size).map(seed => participants[seed - 1] || null);
+
+    if (options.separateBy === 'none') {
+      return slots;
+    }
+
+    return BracketUtils.separateFirstRound(
+      slots,
+      p => this.separationKeys(p, options.separateBy),
+      p => p.seedPinned
+    );
+  }
+
+  // Series length defaults to options.bestOf; bestOfByRound overrides it per
+  // round number, and its "final" key covers the final (and grand finals).
+  // Group and knockout stages both number their rounds from 1, so in a
+  // multi-stage tournament the per-round lengths only apply to the knockout.
+  private async applySeriesLength(tournamentId: string, options: BracketOptions) {
+    await this.prisma.match.updateMany({
+      where: { tournamentId },
+      data: {
+        bestOfSeries: options.bestOf,
+        seriesTiebreak: options.seriesTiebreak
+      }
+    });
+
+    const brackets = await this.prisma.bracket.findMany({
+      where: { tournamentId },
+      select: { type: true }
+    });
+    const multiStage = brackets.some(b => ELIMINATION_BRACKETS.includes(b.type)) &&
+      brackets.some(b => !ELIMINATION_BRACKETS.includes(b.type));
+
+    for (const [round, bestOf] of Object.entries(options.bestOfByRound || {})) {
+      await this.prisma.match.updateMany({
+        where: round === 'final'
+          ? {
+            tournamentId,
+            nextMatchId: null,
+            bracket: { type: { in: ['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION_WINNERS'] } }
+          }
+          : {
+            tournamentId,
+            round: Number(round),
+            ...(multiStage ? { bracket: { type: { in: ELIMINATION_BRACKETS } } } : {})
+          },
+        data: { bestOfSeries: bestOf }
+      });
+    }
+
+    // Swiss rounds are paired later, so the settings travel with the bracket
+    const swissBrackets = await this.prisma.bracket.findMany({
+      where: { tournamentId, type: 'SWISS' }
+    });
+
+    for (const bracket of swissBrackets) {
+      await this.prisma.bracket.update({
+        where: { id: bracket.id },
+        data: {
+          structure: {
+            ...(bracket.structure as Record<string, any>),
+            series: {
+              bestOf: options.bestOf,
+              bestOfByRound: options.bestOfByRound || {},
+              seriesTiebreak: options.seriesTiebreak
+            }
+          } as any
+        }
+      });
+    }
+  }
+
+  private async persistSeeds(participants: any[]) {
+    for (let i = 0; i < participants.length; i++) {
+      participants[i].seed = i + 1;
+      await this.prisma.tournamentParticipant.update({
+        where: { id: participants[i].id },
+        data: { seed: i + 1 }
+      });
+    }
+  }
+
   private async createBracketStructure(
     format: TournamentFormat,
     participants: any[],
-    tournamentId: string
+    tournamentId: string,
+    options: BracketOptions
   ) {
     switch (format) {
       case 'SINGLE_ELIMINATION':
-        return await this.generateSingleEliminationBracket(participants, tournamentId);
+        return await this.generateSingleEliminationBracket(participants, tournamentId, options);
       
       case 'DOUBLE_ELIMINATION':
-        return await this.generateDoubleEliminationBracket(participants, tournamentId);
+        return await this.generateDoubleEliminationBracket(participants, tournamentId, options);
       
       case 'ROUND_ROBIN':
-        return await this.generateRoundRobinBracket(participants, tournamentId);
+        return await this.generateRoundRobinBracket(participants, tournamentId, options);
       
       case 'SWISS':
         return await this.generateSwissBracket(participants, tournamentId);
       
+      case 'LEAGUE':
+        return await this.generateLeagueBracket(participants, tournamentId, options);
+      
+      case 'CUSTOM':
+        return await this.generateGroupStageBracket(participants, tournamentId, options);
+      
       default:
         throw new Error(`Bracket generation for ${format} not implemented`);
     }
   }
 
-  private async generateSingleEliminationBracket(participants: any[], tournamentId: string) {
-    // Calculate number of rounds needed
-    const rounds = Math.ceil(Math.log2(participants.length));
+  private async generateSingleEliminationBracket(
+    participants: any[],
+    tournamentId: string,
+    options: BracketOptions
+  ) {
+    // Pad the field to the next power of two; missing seeds become byes
+    const size = BracketUtils.getBracketSize(participants.length);
+    const slots = this.getFirstRoundSlots(participants, size, options);
     
     // Create main bracket
     const bracket = await this.prisma.bracket.create({
@@ -340,29 +925,178 @@ export class TournamentService {
       }
     });
 
-    // Generate first round matches
+    const { matches, totalRounds } = await this.buildEliminationTree(tournamentId, bracket.id, slots);
+
+    const structure = await this.saveBracketStructure(bracket.id, {
+      size,
+      totalRounds,
+      byes: size - participants.length
+    });
+
+    return { bracket: { ...bracket, structure }, matches, totalRounds };
+  }
+
+  // Slots are read in pairs for the first round; null slots are byes, or
+  // empty seats when the field is decided later (e.g. group-stage playoffs)
+  private async buildEliminationTree(tournamentId: string, bracketId: string, slots: any[]) {
+    const rounds = Math.log2(slots.length);
+
+    // Build the tree from the final backwards so every match knows
+    // which slot its winner feeds into
     const matches = [];
-    for (let i = 0; i < participants.length; i += 2) {
-      if (i + 1 < participants.length) {
-        // Both participants available
+    let nextRound: any[] = [];
+
+    for (let round = rounds; round >= 1; round--) {
+      const matchCount = Math.pow(2, rounds - round);
+      const currentRound = [];
+
+      for (let position = 0; position < matchCount; position++) {
+        const next = nextRound.length > 0
+          ? { matchId: nextRound[Math.floor(position / 2)].id, side: (position % 2) + 1 }
+          : undefined;
+
+        // Only the first round is populated; later rounds fill as winners advance
+        const pairing = round === 1
+          ? [slots[position * 2], slots[position * 2 + 1]].filter(p => p !== null)
+          : [];
+
         const match = await this.createMatch(
           tournamentId,
-          bracket.id,
-          1,
-          Math.floor(i / 2),
-          [participants[i], participants[i + 1]]
+          bracketId,
+          round,
+          position,
+          pairing,
+          { next }
         );
-        matches.push(match);
-      } else {
-        // Bye - participant advances automatically
-        // This would be handled in the bracket visualization
+
+        // Seed order always puts the bye in the second slot, so the
+        // higher seed walks straight into round 2
+        if (round === 1 && pairing.length === 1) {
+          currentRound.push(await this.completeByeMatch(match, pairing[0], next));
+        } else {
+          currentRound.push(match);
+        }
       }
+
+      matches.unshift(...currentRound);
+      nextRound = currentRound;
     }
 
-    return { bracket, matches };
+    return { matches, totalRounds: rounds };
   }
 
-  private async generateDoubleEliminationBracket(participants: any[], tournamentId: string) {
+  private async generateGroupStageBracket(
+    participants: any[],
+    tournamentId: string,
+    options: BracketOptions
+  ) {
+    const groupCount = options.groupCount
+      || Math.ceil(participants.length / (options.groupSize || 4));
+    const groups = BracketUtils.getSnakeGroups(participants, groupCount);
+    const smallestGroup = Math.min(...groups.map(g => g.length));
+
+    if (groupCount < 2 || smallestGroup < 2) {
+      throw new Error('Group stage needs at least two groups of two participants');
+    }
+
+    if (options.qualifiersPerGroup > smallestGroup) {
+      throw new Error('Cannot advance more participants than the smallest group holds');
+    }
+
+    // Stage 1: a round-robin bracket per group
+    const groupBrackets = [];
+    const matches = [];
+
+    for (let g = 0; g < groups.length; g++) {
+      const letter = String.fromCharCode(65 + g);
+      const bracket = await this.prisma.bracket.create({
+        data: {
+          tournamentId,
+          name: `Group ${letter}`,
+          type: 'ROUND_ROBIN',
+          round: 1,
+          position: g
+        }
+      });
+
+      const schedule = RoundRobinUtils.getSchedule(groups[g].length, options.doubleRoundRobin);
+
+      for (const { round, pairings } of schedule) {
+        for (let position = 0; position < pairings.length; position++) {
+          const [home, away] = pairings[position];
+          const match = await this.createMatch(
+            tournamentId,
+            bracket.id,
+            round,
+            position,
+            [groups[g][home], groups[g][away]],
+            { matchNumber: `${letter}${round}-${position + 1}` }
+          );
+          matches.push(match);
+        }
+      }
+
+      const structure = {
+        totalRounds: schedule.length,
+        doubleRoundRobin: options.doubleRoundRobin,
+        table: LeagueUtils.computeTable(groups[g], [])
+      };
+
+      await this.prisma.bracket.update({
+        where: { id: bracket.id },
+        data: { structure: structure as any }
+      });
+
+      groupBrackets.push({ ...bracket, structure });
+    }
+
+    // Stage 2: an empty knockout bracket, filled by BracketService once every
+    // group has finished
+    const qualifiers = groupCount * options.qualifiersPerGroup;
+    const size = BracketUtils.getBracketSize(qualifiers);
+
+    const playoffBracket = await this.prisma.bracket.create({
+      data: {
+        tournamentId,
+        name: 'Playoffs',
+        type: 'SINGLE_ELIMINATION',
+        round: 2,
+        position: 0
+      }
+    });
+
+    const playoff = await this.buildEliminationTree(
+      tournamentId,
+      playoffBracket.id,
+      new Array(size).fill(null)
+    );
+
+    const playoffStructure = await this.saveBracketStructure(playoffBracket.id, {
+      size,
+      totalRounds: playoff.totalRounds,
+      byes: size - qualifiers,
+      groupCount,
+      qualifiersPerGroup: options.qualifiersPerGroup,
+      crossGroupPairing: options.crossGroupPairing
+    });
+
+    return {
+      groups: groupBrackets,
+      playoffBracket: { ...playoffBracket, structure: playoffStructure },
+      matches: [...matches, ...playoff.matches]
+    };
+  }
+
+  private async generateDoubleEliminationBracket(
+    participants: any[],
+    tournamentId: string,
+    options: BracketOptions
+  ) {
+    const size = BracketUtils.getBracketSize(participants.length);
+    const winnersRounds = Math.log2(size);
+    const losersRounds = 2 * (winnersRounds - 1);
+    const slots = this.getFirstRoundSlots(participants, size, options);
+
     // Create winners bracket
     const winnersBracket = await this.prisma.bracket.create({
       data: {
@@ -385,25 +1119,162 @@ export class TournamentService {
       }
     });
 
-    // Generate winners bracket first round
-    const matches = [];
-    for (let i = 0; i < participants.length; i += 2) {
-      if (i + 1 < participants.length) {
+    // Grand final (and the optional reset) close out the winners bracket
+    const grandFinal = await this.createMatch(
+      tournamentId,
+      winnersBracket.id,
+      winnersRounds + 1,
+      0,
+      [],
+      { matchNumber: 'GF' }
+    );
+
+    if (options.grandFinalReset) {
+      await this.createMatch(
+        tournamentId,
+        winnersBracket.id,
+        winnersRounds + 2,
+        0,
+        [],
+        { matchNumber: 'GF-R' }
+      );
+    }
+
+    // Losers bracket, built backwards from its final. Odd rounds pit losers-
+    // bracket survivors against each other; even rounds take the drop-ins from
+    // winners round (r / 2 + 1) against the survivors
+    const losersByRound: Record<number, any[]> = {};
+
+    for (let round = losersRounds; round >= 1; round--) {
+      const matchCount = size / Math.pow(2, Math.ceil(round / 2) + 1);
+      losersByRound[round] = [];
+
+      for (let position = 0; position < matchCount; position++) {
+        let next: MatchLinks['next'];
+
+        if (round === losersRounds) {
+          next = { matchId: grandFinal.id, side: 2 };
+        } else if (round % 2 === 1) {
+          next = { matchId: losersByRound[round + 1][position].id, side: 1 };
+        } else {
+          next = {
+            matchId: losersByRound[round + 1][Math.floor(position / 2)].id,
+            side: (position % 2) + 1
+          };
+        }
+
+        const match = await this.createMatch(
+          tournamentId,
+          losersBracket.id,
+          round,
+          position,
+          [],
+          { next, matchNumber: `L${round}-${position + 1}` }
+        );
+        losersByRound[round].push(match);
+      }
+    }
+
+    // Winners bracket, built backwards from its final
+    const winnersByRound: Record<number, any[]> = {};
+
+    for (let round = winnersRounds; round >= 1; round--) {
+      const matchCount = size / Math.pow(2, round);
+      winnersByRound[round] = [];
+
+      for (let position = 0; position < matchCount; position++) {
+        const next = round === winnersRounds
+          ? { matchId: grandFinal.id, side: 1 }
+          : { matchId: winnersByRound[round + 1][Math.floor(position / 2)].id, side: (position % 2) + 1 };
+
+        const loserNext = this.getLoserDrop(round, position, matchCount, losersByRound, grandFinal.id);
+
+        const pairing = round === 1
+          ? [slots[position * 2], slots[position * 2 + 1]].filter(p => p !== null)
+          : [];
+
         const match = await this.createMatch(
           tournamentId,
           winnersBracket.id,
-          1,
-          Math.floor(i / 2),
-          [participants[i], participants[i + 1]]
+          round,
+          position,
+          pairing,
+          { next, loserNext }
         );
-        matches.push(match);
+
+        if (round === 1 && pairing.length === 1) {
+          winnersByRound[round].push(await this.completeByeMatch(match, pairing[0], next));
+        } else {
+          winnersByRound[round].push(match);
+        }
+      }
+    }
+
+    // A losers-bracket opener fed by two byes will never be played
+    for (const match of losersByRound[1] || []) {
+      const feeders = winnersByRound[1].slice(match.position * 2, match.position * 2 + 2);
+      if (feeders.every(feeder => feeder.status === 'COMPLETED')) {
+        await this.prisma.match.update({
+          where: { id: match.id },
+          data: { status: 'CANCELLED' }
+        });
       }
     }
 
-    return { winnersBracket, losersBracket, matches };
+    const metadata = {
+      size,
+      winnersRounds,
+      losersRounds,
+      grandFinalReset: options.grandFinalReset,
+      byes: size - participants.length
+    };
+
+    const winnersStructure = await this.saveBracketStructure(winnersBracket.id, metadata);
+    const losersStructure = await this.saveBracketStructure(losersBracket.id, metadata);
+
+    const matches = await this.prisma.match.findMany({
+      where: { tournamentId },
+      orderBy: [{ round: 'asc' }, { position: 'asc' }]
+    });
+
+    return {
+      winnersBracket: { ...winnersBracket, structure: winnersStructure },
+      losersBracket: { ...losersBracket, structure: losersStructure },
+      matches
+    };
   }
 
-  private async generateRoundRobinBracket(participants: any[], tournamentId: string) {
+  // Winners round r losers drop into losers round 2(r - 1). Later drops are
+  // crossed over (reversed, then half-swapped) so a player dropping down
+  // doesn't immediately meet someone they already played
+  private getLoserDrop(
+    round: number,
+    position: number,
+    matchCount: number,
+    losersByRound: Record<number, any[]>,
+    grandFinalId: string
+  ): MatchLinks['loserNext'] {
+    // Two-player field: there is no losers bracket, the loser goes to the grand final
+    if (!losersByRound[1]) {
+      return { matchId: grandFinalId, side: 2 };
+    }
+
+    if (round === 1) {
+      return { matchId: losersByRound[1][Math.floor(position / 2)].id, side: (position % 2) + 1 };
+    }
+
+    const target = round % 2 === 0
+      ? matchCount - 1 - position
+      : (position + matchCount / 2) % matchCount;
+
+    return { matchId: losersByRound[2 * (round - 1)][Math.floor(target)].id, side: 2 };
+  }
+
+  private async generateRoundRobinBracket(
+    participants: any[],
+    tournamentId: string,
+    options: BracketOptions
+  ) {
     const bracket = await this.prisma.bracket.create({
       data: {
         tournamentId,
@@ -414,54 +1285,157 @@ export class TournamentService {
       }
     });
 
-    // Generate all possible matchups
+    const schedule = RoundRobinUtils.getSchedule(participants.length, options.doubleRoundRobin);
+
     const matches = [];
-    for (let i = 0; i < participants.length; i++) {
-      for (let j = i + 1; j < participants.length; j++) {
+    for (const { round, pairings } of schedule) {
+      for (let position = 0; position < pairings.length; position++) {
+        const [home, away] = pairings[position];
         const match = await this.createMatch(
           tournamentId,
           bracket.id,
-          1,
-          matches.length,
-          [participants[i], participants[j]]
+          round,
+          position,
+          [participants[home], participants[away]]
         );
         matches.push(match);
       }
     }
 
-    return { bracket, matches };
+    const byes = schedule
+      .filter(r => r.bye !== undefined)
+      .map(r => ({
+        round: r.round,
+        participantId: participants[r.bye!].userId || participants[r.bye!].teamId
+      }));
+
+    const structure = {
+      totalRounds: schedule.length,
+      doubleRoundRobin: options.doubleRoundRobin,
+      byes
+    };
+
+    await this.prisma.bracket.update({
+      where: { id: bracket.id },
+      data: { structure: structure as any }
+    });
+
+    return { bracket: { ...bracket, structure }, matches, totalRounds: schedule.length };
   }
 
-  private async generateSwissBracket(participants: any[], tournamentId: string) {
-    const rounds = Math.ceil(Math.log2(participants.length));
-    
+  private async generateLeagueBracket(
+    participants: any[],
+    tournamentId: string,
+    options: BracketOptions
+  ) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { tournamentStart: true }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
     const bracket = await this.prisma.bracket.create({
       data: {
         tournamentId,
-        name: 'Swiss System',
-        type: 'SWISS',
+        name: 'League',
+        type: 'LEAGUE',
         round: 1,
         position: 0
       }
     });
 
-    // Generate first round with random pairings
+    // Each round of the round-robin is a matchday, spread across the season
+    // from the tournament start
+    const schedule = RoundRobinUtils.getSchedule(participants.length, options.doubleRoundRobin);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const matchdays = schedule.map(({ round }) => ({
+      matchday: round,
+      date: new Date(tournament.tournamentStart.getTime() + (round - 1) * options.matchdayIntervalDays * dayMs)
+    }));
+
     const matches = [];
-    const shuffled = [...participants].sort(() => Math.random() - 0.5);
-    
-    for (let i = 0; i < shuffled.length; i += 2) {
-      if (i + 1 < shuffled.length) {
+    for (const { round, pairings } of schedule) {
+      for (let position = 0; position < pairings.length; position++) {
+        const [home, away] = pairings[position];
         const match = await this.createMatch(
           tournamentId,
           bracket.id,
-          1,
-          Math.floor(i / 2),
-          [shuffled[i], shuffled[i + 1]]
+          round,
+          position,
+          [participants[home], participants[away]],
+          {
+            matchNumber: `MD${round}-${position + 1}`,
+            scheduledAt: matchdays[round - 1].date
+          }
         );
         matches.push(match);
       }
     }
 
+    const structure = {
+      totalRounds: schedule.length,
+      doubleRoundRobin: options.doubleRoundRobin,
+      matchdays,
+      table: LeagueUtils.computeTable(participants, [])
+    };
+
+    await this.prisma.bracket.update({
+      where: { id: bracket.id },
+      data: { structure: structure as any }
+    });
+
+    await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { tournamentEnd: matchdays[matchdays.length - 1]?.date }
+    });
+
+    return { bracket: { ...bracket, structure }, matches, totalRounds: schedule.length };
+  }
+
+  private async generateSwissBracket(participants: any[], tournamentId: string) {
+    const rounds = SwissUtils.getTotalRounds(participants.length);
+    
+    const bracket = await this.prisma.bracket.create({
+      data: {
+        tournamentId,
+        name: 'Swiss System',
+        type: 'SWISS',
+        round: 1,
+        position: 0
+      }
+    });
+
+    // Everyone starts in one score group, so round 1 pairs by seed: the top
+    // half meets the bottom half. Later rounds are paired by BracketService as
+    // each round is validated
+    const standings = SwissUtils.computeStandings(participants, []);
+    const { pairings, bye } = SwissUtils.pairRound(standings);
+
+    const matches = [];
+    for (const [home, away] of pairings) {
+      const match = await this.createMatch(
+        tournamentId,
+        bracket.id,
+        1,
+        matches.length,
+        [home, away]
+      );
+      matches.push(match);
+    }
+
+    if (bye) {
+      const match = await this.createMatch(tournamentId, bracket.id, 1, matches.length, [bye]);
+      matches.push(await this.completeByeMatch(match, bye));
+    }
+
+    await this.prisma.bracket.update({
+      where: { id: bracket.id },
+      data: { structure: { totalRounds: rounds } as any }
+    });
+
     return { bracket, matches, totalRounds: rounds };
   }
 
@@ -470,7 +1444,8 @@ export class TournamentService {
     bracketId: string,
     round: number,
     position: number,
-    participants: any[]
+    participants: any[],
+    links: MatchLinks = {}
   ) {
     const match = await this.prisma.match.create({
       data: {
@@ -478,8 +1453,13 @@ export class TournamentService {
         bracketId,
         round,
         position,
-        status: 'PENDING',
-        matchNumber: `R${round}-${position + 1}`
+        status: participants.length === 2 ? 'READY' : 'PENDING',
+        matchNumber: links.matchNumber || `R${round}-${position + 1}`,
+        nextMatchId: links.next?.matchId,
+        nextMatchSide: links.next?.side,
+        loserNextMatchId: links.loserNext?.matchId,
+        loserNextMatchSide: links.loserNext?.side,
+        scheduledAt: links.scheduledAt
       }
     });
 
@@ -498,6 +1478,64 @@ export class TournamentService {
     return match;
   }
 
+  private async completeByeMatch(
+    match: any,
+    participant: any,
+    next?: { matchId: string; side: number }
+  ) {
+    const byeMatch = await this.prisma.match.update({
+      where: { id: match.id },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        winnerId: participant.userId || participant.teamId
+      }
+    });
+
+    if (next) {
+      await this.prisma.matchParticipant.create({
+        data: {
+          matchId: next.matchId,
+          userId: participant.userId,
+          teamId: participant.teamId,
+          side: next.side
+        }
+      });
+
+      const seated = await this.prisma.matchParticipant.count({
+        where: { matchId: next.matchId }
+      });
+
+      if (seated === 2) {
+        await this.prisma.match.update({
+          where: { id: next.matchId },
+          data: { status: 'READY' }
+        });
+      }
+    }
+
+    return byeMatch;
+  }
+
+  private async saveBracketStructure(bracketId: string, metadata: Record<string, any>) {
+    const matches = await this.prisma.match.findMany({
+      where: { bracketId },
+      include: { participants: true }
+    });
+
+    const structure = {
+      ...metadata,
+      roots: BracketUtils.buildTree(matches)
+    };
+
+    await this.prisma.bracket.update({
+      where: { id: bracketId },
+      data: { structure: structure as any }
+    });
+
+    return structure;
+  }
+
   // ===== TOURNAMENT ANALYTICS =====
 
   async getTournamentStats(tournamentId: string): Promise<TournamentStats> {
@@ -528,9 +1566,14 @@ export class TournamentService {
       throw new Error('Tournament not found');
     }
 
-    const completedMatches = tournament.matches.filter(m => m.status === 'COMPLETED');
+    // Byes and walkovers are settled without being played, so leave them out of the stats
+    const completedMatches = tournament.matches.filter(m =>
+      m.status === 'COMPLETED' && m.participants.length === 2
+    );
+    const confirmedResult = (m: typeof completedMatches[number]) =>
+      m.results.find(r => r.status === 'VALIDATED' || r.status === 'AUTO_VALIDATED');
     const pendingMatches = tournament.matches.filter(m => 
-      m.status === 'PENDING' || m.status === 'READY' || m.status === 'LIVE'
+      m.status === 'PENDING' || m.status === 'READY' || m.status === 'LIVE' || m.status === 'WAITING_RESULTS'
     );
 
     // Calculate average match duration
@@ -551,15 +1594,13 @@ export class TournamentService {
       );
 
       const wins = userMatches.filter(m => {
-        const result = m.results.find(r => r.status === 'VALIDATED');
+        const result = confirmedResult(m);
         if (!result) return false;
         
         const participant = m.participants.find(mp => mp.userId === p.userId || mp.teamId === p.teamId);
-        const isPlayer1 = participant?.side === 1;
-        
-        return isPlayer1 
-          ? result.player1Score > result.player2Score
-          : result.player2Score > result.player1Score;
+
+        // Extra time and shootouts decide level knockout matches
+        return MatchResultUtils.resolve(result).winnerSide === participant?.side;
       }).length;
 
       return {
@@ -576,7 +1617,7 @@ export class TournamentService {
 
     // Count upsets (lower ELO beating higher ELO by significant margin)
     const upsetCount = completedMatches.filter(m => {
-      const result = m.results.find(r => r.status === 'VALIDATED');
+      const result = confirmedResult(m);
       if (!result) return false;
 
       const p1 = m.participants.find(p => p.side === 1);
@@ -599,22 +1640,129 @@ export class TournamentService {
 
       // Consider it an upset if ELO difference > 200 and underdog won
       if (eloDiff > 200) {
-        const player1Won = result.player1Score > result.player2Score;
+        const { winnerSide } = MatchResultUtils.resolve(result);
         const player1IsUnderdog = elo1 < elo2;
         
-        return (player1Won && player1IsUnderdog) || (!player1Won && !player1IsUnderdog);
+        return (winnerSide === 1 && player1IsUnderdog) || (winnerSide === 2 && !player1IsUnderdog);
       }
 
       return false;
     }).length;
 
+    const validatedResults = completedMatches
+      .map(confirmedResult)
+      .filter((r): r is NonNullable<typeof r> => !!r);
+    const extraTimeMatches = validatedResults.filter(r => MatchResultUtils.hasExtraTime(r)).length;
+    const penaltyShootouts = validatedResults.filter(r => MatchResultUtils.hasPenalties(r)).length;
+
     return {
       totalParticipants: tournament.participants.length,
       completedMatches: completedMatches.length,
       pendingMatches: pendingMatches.length,
       averageMatchDuration,
       topPerformers,
-      upsetCount
+      upsetCount,
+      extraTimeMatches,
+      penaltyShootouts,
+      walkovers: tournament.matches.filter(m => m.status === 'WALKOVER').length
+    };
+  }
+
+  async getLeaderboard(tournamentId: string, limit: number = 10) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        participants: {
+          where: { status: { notIn: ['DISQUALIFIED', 'WITHDRAWN'] } },
+          orderBy: { seed: 'asc' },
+          include: {
+            user: { select: { username: true, displayName: true, avatar: true } },
+            team: { select: { name: true, tag: true, avatar: true } }
+          }
+        },
+        brackets: {
+          include: {
+            matches: {
+              include: {
+                participants: true,
+                results: {
+                  where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } },
+                  orderBy: { submittedAt: 'desc' },
+                  take: 1,
+                  include: { games: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const names = new Map<string, any>(
+      tournament.participants.map(p => [
+        (p.userId || p.teamId)!,
+        p.user ? { name: p.user.displayName || p.user.username, avatar: p.user.avatar }
+          : { name: p.team?.name, tag: p.team?.tag, avatar: p.team?.avatar }
+      ])
+    );
+    const matches = tournament.brackets.flatMap(b => b.matches);
+
+    let standings: any[];
+
+    switch (tournament.format) {
+      case 'LEAGUE':
+      case 'ROUND_ROBIN':
+        standings = LeagueUtils.computeTable(tournament.participants, matches);
+        break;
+
+      case 'SWISS':
+        standings = SwissUtils.computeStandings(tournament.participants, matches);
+        break;
+
+      default:
+        // Elimination formats rank by where each participant went out
+        standings = [...tournament.participants]
+          .sort((a, b) =>
+            (a.finalPlacement || Number.MAX_SAFE_INTEGER) - (b.finalPlacement || Number.MAX_SAFE_INTEGER) ||
+            (a.seed || 0) - (b.seed || 0)
+          )
+          .map((p, index) => ({
+            position: index + 1,
+            participantId: (p.userId || p.teamId)!,
+            userId: p.userId,
+            teamId: p.teamId,
+            seed: p.seed,
+            finalPlacement: p.finalPlacement,
+            status: p.status
+          }));
+    }
+
+    // Multi-stage events also show each group's table
+    const groups = tournament.format === 'CUSTOM'
+      ? tournament.brackets
+        .filter(b => b.type === 'ROUND_ROBIN')
+        .sort((a, b) => a.position - b.position)
+        .map(b => {
+          const members = new Set(b.matches.flatMap(m => m.participants.map(p => p.userId || p.teamId)));
+          const table = LeagueUtils.computeTable(
+            tournament.participants.filter(p => members.has(p.userId || p.teamId)),
+            b.matches
+          );
+          return { name: b.name, table: table.map(s => ({ ...s, ...names.get(s.participantId) })) };
+        })
+      : undefined;
+
+    return {
+      format: tournament.format,
+      standings: standings.slice(0, limit).map(s => ({
+        ...s,
+        ...names.get(s.participantId)
+      })),
+      groups
     };
   }
 
@@ -630,7 +1778,8 @@ export class TournamentService {
     return 'long';
   }
 
-  private async checkAutoStart(tournamentId: string) {
+  // Registration otherwise closes on its scheduled job at registrationEnd
+  private async closeRegistrationIfFull(tournamentId: string) {
     const tournament = await this.prisma.tournament.findUnique({
       where: { id: tournamentId },
       include: { _count: { select: { participants: true } } }
@@ -638,14 +1787,9 @@ export class TournamentService {
 
     if (!tournament) return;
 
-    // Auto-start logic could be implemented here
-    // For now, just update status when registration closes
-    if (new Date() >= new Date(tournament.registrationEnd) &&
-        tournament.status === 'REGISTRATION_OPEN') {
-      await this.prisma.tournament.update({
-        where: { id: tournamentId },
-        data: { status: 'REGISTRATION_CLOSED' }
-      });
+    if (tournament.status === 'REGISTRATION_OPEN' &&
+        tournament._count.participants >= tournament.maxParticipants) {
+      await this.transitionStatus(tournamentId, 'REGISTRATION_CLOSED');
     }
   }
 
@@ -717,7 +1861,7 @@ export class TournamentService {
                   }
                 },
                 results: {
-                  where: { status: 'VALIDATED' }
+                  where: { status: { in: ['VALIDATED', 'AUTO_VALIDATED'] } }
                 }
               }
             }
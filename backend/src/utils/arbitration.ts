@@ -0,0 +1,137 @@
+import { DisputePriority, ArbitrationDecision } from '@prisma/client';
+
+export interface ArbiterCandidate {
+  id: string;
+  role: string;
+  openDisputes: number;
+  capacity: number;           // Open disputes the arbiter takes at most
+  specialized: boolean;       // Specializes in the dispute's category
+  decidedVotes: number;       // Votes on disputes resolved since
+  agreedVotes: number;        // ...that matched the final decision
+}
+
+export const DEFAULT_ARBITER_CAPACITY = 3;
+
+// Hours to resolve a dispute before it escalates to admins
+export const RESOLUTION_SLA_HOURS: Record<DisputePriority, number> = {
+  URGENT: 6,
+  HIGH: 24,
+  MEDIUM: 48,
+  LOW: 72
+};
+
+// Hours an assigned arbiter has to vote before being replaced
+export const VOTE_SLA_HOURS: Record<DisputePriority, number> = {
+  URGENT: 2,
+  HIGH: 8,
+  MEDIUM: 16,
+  LOW: 24
+};
+
+// Share of the voting window after which the arbiter is reminded
+const REMINDER_AFTER = 0.5;
+
+// Hours after resolution in which a party may appeal
+export const APPEAL_WINDOW_HOURS = 48;
+
+// An appeal panel has this many more arbiters than the panel it reviews
+export const APPEAL_PANEL_EXTRA = 2;
+
+// Track record that makes a moderator senior enough to hear appeals
+const SENIOR_MIN_DECIDED_VOTES = 20;
+const SENIOR_MIN_AGREEMENT = 0.8;
+
+// Probation arbiters shadowing each new dispute
+export const SHADOWS_PER_DISPUTE = 1;
+
+// Shadow record needed to leave probation
+const PROBATION_MIN_VOTES = 10;
+const PROBATION_MIN_ACCURACY = 0.75;
+
+// Voting within this many hours of assignment earns full marks for response
+// time, falling to none at twice that
+const RESPONSE_TARGET_HOURS = 24;
+
+// How much each factor counts towards an arbiter's assignment score
+const AGREEMENT_WEIGHT = 0.5;
+const SPECIALIZATION_WEIGHT = 0.3;
+const WORKLOAD_WEIGHT = 0.2;
+
+export class ArbitrationUtils {
+  // Smoothed so an arbiter with no history starts in the middle, not at 0 or 1
+  static agreementRate(candidate: ArbiterCandidate): number {
+    return (candidate.agreedVotes + 1) / (candidate.decidedVotes + 2);
+  }
+
+  static resolutionDeadline(priority: DisputePriority, from: Date = new Date()): Date {
+    return new Date(from.getTime() + RESOLUTION_SLA_HOURS[priority] * 60 * 60 * 1000);
+  }
+
+  static voteDeadline(priority: DisputePriority, from: Date = new Date()): Date {
+    return new Date(from.getTime() + VOTE_SLA_HOURS[priority] * 60 * 60 * 1000);
+  }
+
+  static reminderDue(assignedAt: Date, dueAt: Date, now: Date = new Date()): boolean {
+    const remindAt = assignedAt.getTime() + (dueAt.getTime() - assignedAt.getTime()) * REMINDER_AFTER;
+    return now.getTime() >= remindAt;
+  }
+
+  // Admins always qualify; moderators once they have a long, reliable record
+  static isSenior(candidate: ArbiterCandidate): boolean {
+    return candidate.role === 'ADMIN' || (
+      candidate.decidedVotes >= SENIOR_MIN_DECIDED_VOTES &&
+      this.agreementRate(candidate) >= SENIOR_MIN_AGREEMENT
+    );
+  }
+
+  static passesProbation(shadowAgreed: number, shadowVotes: number): boolean {
+    return shadowVotes >= PROBATION_MIN_VOTES && shadowAgreed / shadowVotes >= PROBATION_MIN_ACCURACY;
+  }
+
+  // 0-5 stars, mostly accuracy with a share for answering promptly
+  static reputation(agreedVotes: number, decidedVotes: number, averageResponseMinutes: number | null): number {
+    const accuracy = (agreedVotes + 1) / (decidedVotes + 2);
+    const target = RESPONSE_TARGET_HOURS * 60;
+    const responsiveness = averageResponseMinutes === null
+      ? 0.5
+      : Math.min(1, Math.max(0, 2 - averageResponseMinutes / target));
+
+    return Math.round(5 * (0.8 * accuracy + 0.2 * responsiveness) * 10) / 10;
+  }
+
+  // A decision overturned on appeal is judged by the appeal's decision
+  static effectiveDecision(dispute: {
+    finalDecision: ArbitrationDecision | null;
+    appeal?: { status: string; finalDecision: ArbitrationDecision | null } | null;
+  }): ArbitrationDecision | null {
+    const appealed = dispute.appeal?.status === 'RESOLVED' ? dispute.appeal.finalDecision : null;
+    return appealed && appealed !== 'ESCALATE' ? appealed : dispute.finalDecision;
+  }
+
+  static score(candidate: ArbiterCandidate): number {
+    const spareCapacity = 1 - candidate.openDisputes / candidate.capacity;
+
+    return AGREEMENT_WEIGHT * this.agreementRate(candidate) +
+      SPECIALIZATION_WEIGHT * (candidate.specialized ? 1 : 0) +
+      WORKLOAD_WEIGHT * spareCapacity;
+  }
+
+  /**
+   * Best-scoring arbiters with room for another dispute. Ties go to the less
+   * busy arbiter, then to admins.
+   */
+  static pick(candidates: ArbiterCandidate[], count: number): ArbiterCandidate[] {
+    return candidates
+      .filter(candidate => candidate.openDisputes < candidate.capacity)
+      .map(candidate => ({ candidate, score: this.score(candidate) }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.candidate.openDisputes - b.candidate.openDisputes ||
+        Number(b.candidate.role === 'ADMIN') - Number(a.candidate.role === 'ADMIN')
+      )
+      .slice(0, count)
+      .map(({ candidate }) => candidate);
+  }
+}
+
+export default ArbitrationUtils;
@@ -0,0 +1,187 @@
+import { ResultScores, MatchResultUtils } from './matchResult';
+
+export interface BracketNodeScore {
+  player1: number;
+  player2: number;
+  extraTime?: [number, number];
+  penalties?: [number, number];
+}
+
+export interface BracketNode {
+  id: string;
+  round: number;
+  position: number;
+  participants: string[];
+  winner?: string;
+  score?: BracketNodeScore;
+  status: 'pending' | 'ready' | 'completed';
+  isBye?: boolean;
+  isWalkover?: boolean;
+  children?: BracketNode[];
+}
+
+interface BracketMatch {
+  id: string;
+  round: number;
+  position: number;
+  status: string;
+  winnerId: string | null;
+  nextMatchId: string | null;
+  nextMatchSide: number | null;
+  participants: { userId: string | null; teamId: string | null; side: number }[];
+  results?: ResultScores[];
+}
+
+export class BracketUtils {
+  static getBracketSize(participantCount: number): number {
+    return Math.pow(2, Math.ceil(Math.log2(Math.max(participantCount, 2))));
+  }
+
+  /**
+   * Standard seed placement: seed order for a bracket of `size` slots, read in
+   * pairs, so 1 meets 16, 8 meets 9, and seeds 1 and 2 can only meet in the final.
+   */
+  static getSeedOrder(size: number): number[] {
+    let order = [1, 2];
+
+    while (order.length < size) {
+      const nextSize = order.length * 2;
+      order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+    }
+
+    return order;
+  }
+
+  /**
+   * Keep participants who share a region or club apart in the first round.
+   * Clashing pairs swap their lower seed (second slot) with the pair whose
+   * lower seed is closest in seed, as long as neither pair clashes afterwards.
+   */
+  static separateFirstRound<T>(
+    slots: (T | null)[],
+    keysOf: (participant: T) => string[],
+    isFixed: (participant: T) => boolean = () => false
+  ): (T | null)[] {
+    const result = [...slots];
+    const seeds = this.getSeedOrder(result.length);
+    const clash = (a: T | null, b: T | null) =>
+      !!a && !!b && keysOf(a).some(key => keysOf(b).includes(key));
+
+    for (let i = 0; i < result.length; i += 2) {
+      if (!clash(result[i], result[i + 1]) || isFixed(result[i + 1]!)) continue;
+
+      const candidates = [];
+      for (let j = 0; j < result.length; j += 2) {
+        if (j !== i) candidates.push(j);
+      }
+      candidates.sort((a, b) => Math.abs(seeds[a + 1] - seeds[i + 1]) - Math.abs(seeds[b + 1] - seeds[i + 1]));
+
+      for (const j of candidates) {
+        const swapIn = result[j + 1];
+        if (!swapIn || isFixed(swapIn)) continue;
+
+        if (!clash(result[i], swapIn) && !clash(result[j], result[i + 1])) {
+          result[j + 1] = result[i + 1];
+          result[i + 1] = swapIn;
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Snake (serpentine) group draw over a seeded list: seeds 1-4 go to groups
+   * A-D, seeds 5-8 to D-A, and so on, which keeps group strength level.
+   */
+  static getSnakeGroups<T>(seeded: T[], groupCount: number): T[][] {
+    const groups: T[][] = Array.from({ length: groupCount }, () => []);
+
+    seeded.forEach((item, index) => {
+      const row = Math.floor(index / groupCount);
+      const column = index % groupCount;
+      groups[row % 2 === 0 ? column : groupCount - 1 - column].push(item);
+    });
+
+    return groups;
+  }
+
+  static buildTree(matches: BracketMatch[]): BracketNode[] {
+    const toNode = (match: BracketMatch): BracketNode => {
+      const children = matches
+        .filter(m => m.nextMatchId === match.id)
+        .sort((a, b) => (a.nextMatchSide || 0) - (b.nextMatchSide || 0))
+        .map(toNode);
+
+      const node: BracketNode = {
+        id: match.id,
+        round: match.round,
+        position: match.position,
+        participants: [...match.participants]
+          .sort((a, b) => a.side - b.side)
+          .map(p => (p.userId || p.teamId)!),
+        winner: match.winnerId || undefined,
+        status: BracketUtils.toNodeStatus(match.status)
+      };
+
+      const result = match.results?.[0];
+      if (result) {
+        node.score = BracketUtils.toNodeScore(result);
+      }
+
+      if (match.status === 'WALKOVER') {
+        node.isWalkover = true;
+      }
+
+      if (match.round === 1 && match.participants.length === 1 && match.status === 'COMPLETED') {
+        node.isBye = true;
+      }
+
+      if (children.length > 0) {
+        node.children = children;
+      }
+
+      return node;
+    };
+
+    // Roots are matches whose winner leaves this set of matches, e.g. the
+    // losers-bracket final feeding a grand final held in the winners bracket
+    const ids = new Set(matches.map(m => m.id));
+
+    return matches
+      .filter(m => !m.nextMatchId || !ids.has(m.nextMatchId))
+      .sort((a, b) => b.round - a.round || a.position - b.position)
+      .map(toNode);
+  }
+
+  private static toNodeScore(result: ResultScores): BracketNodeScore {
+    const score: BracketNodeScore = { player1: result.player1Score, player2: result.player2Score };
+
+    if (MatchResultUtils.hasExtraTime(result)) {
+      score.extraTime = [result.player1ExtraTimeScore!, result.player2ExtraTimeScore!];
+    }
+
+    if (MatchResultUtils.hasPenalties(result)) {
+      score.penalties = [result.player1Penalties!, result.player2Penalties!];
+    }
+
+    return score;
+  }
+
+  private static toNodeStatus(status: string): BracketNode['status'] {
+    switch (status) {
+      case 'COMPLETED':
+      case 'WALKOVER':
+        return 'completed';
+      case 'READY':
+      case 'LIVE':
+      case 'WAITING_RESULTS':
+        return 'ready';
+      default:
+        return 'pending';
+    }
+  }
+}
+
+export default BracketUtils;
@@ -0,0 +1,146 @@
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface GlickoResult {
+  opponent: GlickoRating;
+  score: number;              // 1 win, 0.5 draw, 0 loss
+}
+
+// Glicko-2 works on its own scale; ratings are converted in and out around 1500
+const SCALE = 173.7178;
+const BASE_RATING = 1500;
+
+// System constant: how much volatility may change between rating periods
+const TAU = 0.5;
+const EPSILON = 0.000001;
+
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// A week without a match counts as one empty rating period
+export const RATING_PERIOD_DAYS = 7;
+
+export class GlickoUtils {
+  /**
+   * Rating after one rating period, following Glickman's Glicko-2 paper.
+   * An empty period only widens the deviation.
+   */
+  static update(player: GlickoRating, results: GlickoResult[]): GlickoRating {
+    const mu = (player.rating - BASE_RATING) / SCALE;
+    const phi = player.deviation / SCALE;
+    const sigma = player.volatility;
+
+    if (results.length === 0) {
+      return {
+        rating: player.rating,
+        deviation: Math.min(Math.sqrt(phi * phi + sigma * sigma) * SCALE, DEFAULT_DEVIATION),
+        volatility: sigma
+      };
+    }
+
+    const opponents = results.map(result => ({
+      mu: (result.opponent.rating - BASE_RATING) / SCALE,
+      g: this.g(result.opponent.deviation / SCALE),
+      score: result.score
+    }));
+
+    let inverseV = 0;
+    let deltaSum = 0;
+    for (const opponent of opponents) {
+      const expected = 1 / (1 + Math.exp(-opponent.g * (mu - opponent.mu)));
+      inverseV += opponent.g * opponent.g * expected * (1 - expected);
+      deltaSum += opponent.g * (opponent.score - expected);
+    }
+
+    const v = 1 / inverseV;
+    const delta = v * deltaSum;
+    const newSigma = this.volatility(phi, sigma, v, delta);
+
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+    const newMu = mu + newPhi * newPhi * deltaSum;
+
+    return {
+      rating: newMu * SCALE + BASE_RATING,
+      deviation: Math.min(newPhi * SCALE, DEFAULT_DEVIATION),
+      volatility: newSigma
+    };
+  }
+
+  // Widen the deviation for every full rating period the player sat out
+  static decay(player: GlickoRating, lastPlayedAt: Date | null, now: Date = new Date()): GlickoRating {
+    if (!lastPlayedAt) return player;
+
+    const periods = Math.floor(
+      (now.getTime() - lastPlayedAt.getTime()) / (RATING_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+    );
+
+    let decayed = player;
+    for (let i = 0; i < periods && decayed.deviation < DEFAULT_DEVIATION; i++) {
+      decayed = this.update(decayed, []);
+    }
+
+    return decayed;
+  }
+
+  // Chance that the player beats the opponent, allowing for both deviations
+  static expectedScore(player: GlickoRating, opponent: GlickoRating): number {
+    const mu = (player.rating - BASE_RATING) / SCALE;
+    const opponentMu = (opponent.rating - BASE_RATING) / SCALE;
+    const combinedPhi = Math.sqrt(
+      Math.pow(player.deviation / SCALE, 2) + Math.pow(opponent.deviation / SCALE, 2)
+    );
+
+    return 1 / (1 + Math.exp(-this.g(combinedPhi) * (mu - opponentMu)));
+  }
+
+  // ===== HELPER METHODS =====
+
+  private static g(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+  }
+
+  // New volatility by the Illinois algorithm (step 5 of the paper)
+  private static volatility(phi: number, sigma: number, v: number, delta: number): number {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+      const ex = Math.exp(x);
+      const d = phi * phi + v + ex;
+      return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU);
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + v) {
+      B = Math.log(delta * delta - phi * phi - v);
+    } else {
+      let k = 1;
+      while (f(a - k * TAU) < 0) k++;
+      B = a - k * TAU;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > EPSILON) {
+      const C = A + ((A - B) * fA) / (fB - fA);
+      const fC = f(C);
+
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA = fA / 2;
+      }
+
+      B = C;
+      fB = fC;
+    }
+
+    return Math.exp(A / 2);
+  }
+}
+
+export default GlickoUtils;
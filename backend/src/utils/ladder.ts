@@ -0,0 +1,73 @@
+import { Division } from '@prisma/client';
+
+export interface DivisionThreshold {
+  division: Division;
+  minPoints: number;
+}
+
+// Lowest first; a division is reached at its minimum
+export const DIVISIONS: DivisionThreshold[] = [
+  { division: 'BRONZE', minPoints: 0 },
+  { division: 'SILVER', minPoints: 1300 },
+  { division: 'GOLD', minPoints: 1450 },
+  { division: 'PLATINUM', minPoints: 1600 },
+  { division: 'DIAMOND', minPoints: 1750 },
+  { division: 'ELITE', minPoints: 1900 }
+];
+
+// How far below its division's minimum a player may drop before relegation,
+// so one loss right after a promotion doesn't undo it
+export const RELEGATION_BUFFER = 50;
+
+// Decay never takes more than this off a player's rating
+export const MAX_DECAY = 300;
+
+const BASE_RATING = 1500;
+
+// Deviation a rating is raised to at the start of a season, so placements move it quickly
+export const SEASON_START_DEVIATION = 200;
+
+export class LadderUtils {
+  static divisionFor(points: number): Division {
+    let reached = DIVISIONS[0].division;
+    for (const threshold of DIVISIONS) {
+      if (points >= threshold.minPoints) reached = threshold.division;
+    }
+    return reached;
+  }
+
+  /**
+   * Promotion as soon as the next threshold is reached; relegation only once
+   * the player is the buffer below the current one.
+   */
+  static nextDivision(current: Division | null, points: number): Division {
+    const reached = this.divisionFor(points);
+    if (!current) return reached;
+
+    if (this.rank(reached) > this.rank(current)) return reached;
+
+    const currentMin = DIVISIONS[this.rank(current)].minPoints;
+    return points < currentMin - RELEGATION_BUFFER ? reached : current;
+  }
+
+  // Soft reset: pull the rating part of the way back towards the base
+  static softReset(rating: number, carryOver: number): number {
+    return BASE_RATING + (rating - BASE_RATING) * carryOver;
+  }
+
+  static points(rating: number, decay: number): number {
+    return Math.round(rating) - decay;
+  }
+
+  // Decay owed on a given day: nothing during the grace period, then a fixed amount a day
+  static decayFor(lastActiveAt: Date, now: Date, decayDays: number, decayPoints: number): number {
+    const inactiveDays = Math.floor((now.getTime() - lastActiveAt.getTime()) / (24 * 60 * 60 * 1000));
+    return Math.min(Math.max(0, inactiveDays - decayDays) * decayPoints, MAX_DECAY);
+  }
+
+  static rank(division: Division): number {
+    return DIVISIONS.findIndex(threshold => threshold.division === division);
+  }
+}
+
+export default LadderUtils;
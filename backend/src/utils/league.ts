@@ -0,0 +1,135 @@
+import { SeriesUtils, SeriesGame } from './series';
+
+export type FormResult = 'W' | 'D' | 'L';
+
+export interface LeagueStanding {
+  position: number;
+  participantId: string;
+  userId: string | null;
+  teamId: string | null;
+  seed: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  form: FormResult[];
+}
+
+interface LeagueEntrant {
+  userId: string | null;
+  teamId: string | null;
+  seed: number | null;
+}
+
+interface LeagueMatch {
+  round: number;
+  status: string;
+  completedAt: Date | null;
+  participants: { userId: string | null; teamId: string | null; side: number }[];
+  results: (SeriesGame & { games?: SeriesGame[] })[];
+}
+
+export const LEAGUE_POINTS = { win: 3, draw: 1, loss: 0 };
+
+const FORM_LENGTH = 5;
+
+export class LeagueUtils {
+  /**
+   * League table ordered by points, goal difference, goals scored and seed.
+   * Form lists the last five results, most recent first.
+   */
+  static computeTable(entrants: LeagueEntrant[], matches: LeagueMatch[]): LeagueStanding[] {
+    const table = new Map<string, LeagueStanding>();
+
+    entrants.forEach((entrant, index) => {
+      const participantId = (entrant.userId || entrant.teamId)!;
+      table.set(participantId, {
+        position: 0,
+        participantId,
+        userId: entrant.userId,
+        teamId: entrant.teamId,
+        seed: entrant.seed || index + 1,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+        form: []
+      });
+    });
+
+    const played = matches
+      .filter(m => ['COMPLETED', 'WALKOVER'].includes(m.status) && m.participants.length === 2 && m.results.length > 0)
+      .sort((a, b) =>
+        a.round - b.round ||
+        (a.completedAt?.getTime() || 0) - (b.completedAt?.getTime() || 0)
+      );
+
+    for (const match of played) {
+      const [home, away] = [...match.participants]
+        .sort((a, b) => a.side - b.side)
+        .map(p => table.get((p.userId || p.teamId)!));
+      const result = match.results[0];
+      const goals = SeriesUtils.getGoals(result);
+
+      if (!home || !away) continue;
+
+      this.recordGame(home, result.player1Score, result.player2Score, goals.player1Score, goals.player2Score);
+      this.recordGame(away, result.player2Score, result.player1Score, goals.player2Score, goals.player1Score);
+    }
+
+    const standings = [...table.values()].sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.goalDifference - a.goalDifference ||
+        b.goalsFor - a.goalsFor ||
+        a.seed - b.seed
+    );
+
+    standings.forEach((standing, index) => {
+      standing.position = index + 1;
+    });
+
+    return standings;
+  }
+
+  // The score decides the result; goals differ from it only for series
+  private static recordGame(
+    standing: LeagueStanding,
+    scored: number,
+    conceded: number,
+    goalsFor: number,
+    goalsAgainst: number
+  ): void {
+    let result: FormResult;
+
+    if (scored > conceded) {
+      standing.won++;
+      standing.points += LEAGUE_POINTS.win;
+      result = 'W';
+    } else if (scored === conceded) {
+      standing.drawn++;
+      standing.points += LEAGUE_POINTS.draw;
+      result = 'D';
+    } else {
+      standing.lost++;
+      standing.points += LEAGUE_POINTS.loss;
+      result = 'L';
+    }
+
+    standing.played++;
+    standing.goalsFor += goalsFor;
+    standing.goalsAgainst += goalsAgainst;
+    standing.goalDifference = standing.goalsFor - standing.goalsAgainst;
+    standing.form = [result, ...standing.form].slice(0, FORM_LENGTH);
+  }
+}
+
+export default LeagueUtils;
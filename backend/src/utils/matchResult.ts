@@ -0,0 +1,101 @@
+export interface ScoreLine {
+  player1Score: number;
+  player2Score: number;
+}
+
+export interface ResultScores {
+  player1Score: number;
+  player2Score: number;
+  player1ExtraTimeScore?: number | null;
+  player2ExtraTimeScore?: number | null;
+  player1Penalties?: number | null;
+  player2Penalties?: number | null;
+}
+
+export type DecidedBy = 'regulation' | 'extra_time' | 'penalties';
+
+export interface ResolvedResult {
+  winnerSide: 1 | 2 | null;
+  decidedBy: DecidedBy | null;
+}
+
+export class MatchResultUtils {
+  static hasExtraTime(result: ResultScores): boolean {
+    return result.player1ExtraTimeScore != null && result.player2ExtraTimeScore != null;
+  }
+
+  static hasPenalties(result: ResultScores): boolean {
+    return result.player1Penalties != null && result.player2Penalties != null;
+  }
+
+  /**
+   * Extra-time scores are the score after extra time (including regulation
+   * goals); a shootout only settles a match that is still level after that.
+   */
+  static resolve(result: ResultScores): ResolvedResult {
+    const decide = (line: ScoreLine, decidedBy: DecidedBy): ResolvedResult | null =>
+      line.player1Score === line.player2Score
+        ? null
+        : { winnerSide: line.player1Score > line.player2Score ? 1 : 2, decidedBy };
+
+    const regulation = decide(result, 'regulation');
+    if (regulation) return regulation;
+
+    if (this.hasExtraTime(result)) {
+      const extraTime = decide(
+        { player1Score: result.player1ExtraTimeScore!, player2Score: result.player2ExtraTimeScore! },
+        'extra_time'
+      );
+      if (extraTime) return extraTime;
+    }
+
+    if (this.hasPenalties(result)) {
+      const penalties = decide(
+        { player1Score: result.player1Penalties!, player2Score: result.player2Penalties! },
+        'penalties'
+      );
+      if (penalties) return penalties;
+    }
+
+    return { winnerSide: null, decidedBy: null };
+  }
+
+  /**
+   * Reject inconsistent extra time or shootouts, and any knockout result that
+   * doesn't produce a winner.
+   */
+  static validate(result: ResultScores, isKnockout: boolean, levelBeforeShootout?: boolean): void {
+    const regulationLevel = result.player1Score === result.player2Score;
+
+    if (this.hasExtraTime(result)) {
+      if (!regulationLevel) {
+        throw new Error('Extra time can only follow a level score in regulation');
+      }
+
+      if (result.player1ExtraTimeScore! < result.player1Score ||
+          result.player2ExtraTimeScore! < result.player2Score) {
+        throw new Error('Score after extra time cannot be lower than the regulation score');
+      }
+    }
+
+    if (this.hasPenalties(result)) {
+      const level = levelBeforeShootout ?? (this.hasExtraTime(result)
+        ? result.player1ExtraTimeScore === result.player2ExtraTimeScore
+        : regulationLevel);
+
+      if (!level) {
+        throw new Error('A penalty shootout can only follow a level score');
+      }
+
+      if (result.player1Penalties === result.player2Penalties) {
+        throw new Error('A penalty shootout must have a winner');
+      }
+    }
+
+    if (isKnockout && !this.hasPenalties(result) && (levelBeforeShootout ?? this.resolve(result).winnerSide === null)) {
+      throw new Error('Knockout matches cannot end in a draw; report the penalty shootout');
+    }
+  }
+}
+
+export default MatchResultUtils;
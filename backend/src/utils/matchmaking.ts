@@ -0,0 +1,57 @@
+export interface QueueTicket {
+  userId: string;
+  gameMode: string;
+  platform: string;
+  rating: number;
+  joinedAt: number;           // Epoch milliseconds
+}
+
+// Rating gap accepted straight away, and how it widens while a player waits
+export const BASE_SEARCH_WINDOW = 50;
+export const WINDOW_STEP = 25;
+export const WINDOW_STEP_SECONDS = 10;
+export const MAX_SEARCH_WINDOW = 400;
+
+export class MatchmakingUtils {
+  static searchWindow(ticket: QueueTicket, now: number = Date.now()): number {
+    const steps = Math.floor(Math.max(0, now - ticket.joinedAt) / (WINDOW_STEP_SECONDS * 1000));
+    return Math.min(BASE_SEARCH_WINDOW + steps * WINDOW_STEP, MAX_SEARCH_WINDOW);
+  }
+
+  /**
+   * Pair the longest-waiting players first, each with the closest-rated
+   * opponent whose own window also covers the gap, so a new player isn't
+   * thrown at someone far outside the range they asked for.
+   */
+  static pair(tickets: QueueTicket[], now: number = Date.now()): Array<[QueueTicket, QueueTicket]> {
+    const waiting = [...tickets].sort((a, b) => a.joinedAt - b.joinedAt);
+    const paired = new Set<string>();
+    const pairs: Array<[QueueTicket, QueueTicket]> = [];
+
+    for (const ticket of waiting) {
+      if (paired.has(ticket.userId)) continue;
+
+      let best: QueueTicket | null = null;
+      for (const candidate of waiting) {
+        if (candidate.userId === ticket.userId || paired.has(candidate.userId)) continue;
+
+        const gap = Math.abs(candidate.rating - ticket.rating);
+        if (gap > this.searchWindow(ticket, now) || gap > this.searchWindow(candidate, now)) continue;
+
+        if (!best || gap < Math.abs(best.rating - ticket.rating)) {
+          best = candidate;
+        }
+      }
+
+      if (best) {
+        paired.add(ticket.userId);
+        paired.add(best.userId);
+        pairs.push([ticket, best]);
+      }
+    }
+
+    return pairs;
+  }
+}
+
+export default MatchmakingUtils;
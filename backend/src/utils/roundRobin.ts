@@ -0,0 +1,62 @@
+export interface RoundRobinRound {
+  round: number;
+  pairings: [number, number][];
+  bye?: number;
+}
+
+export class RoundRobinUtils {
+  /**
+   * Circle (Berger) method: the first entrant stays fixed while everyone else
+   * rotates one place per round, so each entrant plays exactly once per round.
+   * Odd counts get a phantom entrant, and whoever draws it sits the round out.
+   * Pairings are entrant indexes as [home, away]; a double round-robin repeats
+   * the schedule with home and away swapped.
+   */
+  static getSchedule(entrantCount: number, doubleRoundRobin = false): RoundRobinRound[] {
+    const slots: (number | null)[] = Array.from({ length: entrantCount }, (_, i) => i);
+    if (slots.length % 2 === 1) {
+      slots.push(null);
+    }
+
+    const roundCount = slots.length - 1;
+    const half = slots.length / 2;
+    const rounds: RoundRobinRound[] = [];
+
+    for (let round = 0; round < roundCount; round++) {
+      const pairings: [number, number][] = [];
+      let bye: number | undefined;
+
+      for (let i = 0; i < half; i++) {
+        const a = slots[i];
+        const b = slots[slots.length - 1 - i];
+
+        if (a === null || b === null) {
+          bye = (a ?? b) as number;
+          continue;
+        }
+
+        // Alternate the fixed entrant's venue and mirror the rest so home
+        // games are spread evenly
+        const swap = i === 0 ? round % 2 === 1 : i % 2 === 1;
+        pairings.push(swap ? [b, a] : [a, b]);
+      }
+
+      rounds.push({ round: round + 1, pairings, bye });
+
+      // Rotate everyone but the first slot one place clockwise
+      slots.splice(1, 0, slots.pop()!);
+    }
+
+    if (doubleRoundRobin) {
+      rounds.push(...rounds.map(r => ({
+        round: r.round + roundCount,
+        pairings: r.pairings.map(([home, away]) => [away, home] as [number, number]),
+        bye: r.bye
+      })));
+    }
+
+    return rounds;
+  }
+}
+
+export default RoundRobinUtils;
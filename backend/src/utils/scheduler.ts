@@ -0,0 +1,124 @@
+export interface SchedulableMatch {
+  id: string;
+  round: number;
+  position: number;
+  participants: string[];
+  feederIds: string[];        // Matches whose winner or loser plays in this one
+  streamed: boolean;
+  closed: boolean;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  fixedStart: Date | null;    // Agreed by the players, so it isn't moved
+}
+
+export interface ScheduleConstraints {
+  startAt: Date;
+  stations: number;
+  streamSlots: number;
+  restMinutes: number;
+  matchMinutes: number;
+  now?: Date;
+}
+
+export interface PlannedMatch {
+  matchId: string;
+  scheduledAt: Date;
+  estimatedEnd: Date;
+  station: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export class ScheduleUtils {
+  /**
+   * List scheduling. Matches are placed in dependency order, never before the
+   * matches feeding them have ended plus rest time, at the earliest time a
+   * station (and, for streamed matches, a stream slot) is free. Matches under
+   * way hold their station until their expected end, or until now if they
+   * have overrun. Only matches that haven't started are returned.
+   */
+  static plan(matches: SchedulableMatch[], constraints: ScheduleConstraints): PlannedMatch[] {
+    const now = constraints.now || new Date();
+    const duration = constraints.matchMinutes * MINUTE;
+    const rest = constraints.restMinutes * MINUTE;
+    const floor = new Date(Math.max(constraints.startAt.getTime(), now.getTime()));
+
+    const stationFree: Date[] = Array.from({ length: constraints.stations }, () => floor);
+    const streamFree: Date[] = Array.from({ length: constraints.streamSlots }, () => floor);
+    const playerFree = new Map<string, Date>();
+    const ends = new Map<string, Date>();
+
+    const later = (a: Date, b: Date) => (a > b ? a : b);
+    const earliestIndex = (pool: Date[]) =>
+      pool.reduce((best, free, i) => (free < pool[best] ? i : best), 0);
+    const release = (match: SchedulableMatch, end: Date) => {
+      ends.set(match.id, end);
+      for (const participant of match.participants) {
+        playerFree.set(participant, later(playerFree.get(participant) || floor, new Date(end.getTime() + rest)));
+      }
+    };
+
+    // Closed matches only constrain what follows them
+    for (const match of matches.filter(m => m.closed)) {
+      release(match, match.completedAt || constraints.startAt);
+    }
+
+    for (const match of matches.filter(m => !m.closed && m.startedAt)) {
+      const end = later(new Date(match.startedAt!.getTime() + duration), now);
+      const station = earliestIndex(stationFree);
+      stationFree[station] = later(stationFree[station], end);
+
+      if (match.streamed && streamFree.length > 0) {
+        const slot = earliestIndex(streamFree);
+        streamFree[slot] = later(streamFree[slot], end);
+      }
+
+      release(match, end);
+    }
+
+    const ids = new Set(matches.map(m => m.id));
+    const queue = matches
+      .filter(m => !m.closed && !m.startedAt)
+      .sort((a, b) => a.round - b.round || a.position - b.position);
+    const planned: PlannedMatch[] = [];
+
+    while (queue.length > 0) {
+      // Next match whose feeders are all placed; feeders outside this set
+      // of matches don't hold it back
+      let index = queue.findIndex(m => m.feederIds.every(id => !ids.has(id) || ends.has(id)));
+      if (index === -1) index = 0;
+
+      const [match] = queue.splice(index, 1);
+
+      let start = floor;
+      for (const feederId of match.feederIds) {
+        const feederEnd = ends.get(feederId);
+        if (feederEnd) start = later(start, new Date(feederEnd.getTime() + rest));
+      }
+      for (const participant of match.participants) {
+        start = later(start, playerFree.get(participant) || floor);
+      }
+
+      const station = earliestIndex(stationFree);
+      const slot = match.streamed && streamFree.length > 0 ? earliestIndex(streamFree) : -1;
+
+      if (match.fixedStart) {
+        start = match.fixedStart;
+      } else {
+        start = later(start, stationFree[station]);
+        if (slot !== -1) start = later(start, streamFree[slot]);
+      }
+
+      const end = new Date(start.getTime() + duration);
+      stationFree[station] = later(stationFree[station], end);
+      if (slot !== -1) streamFree[slot] = later(streamFree[slot], end);
+
+      release(match, end);
+      planned.push({ matchId: match.id, scheduledAt: start, estimatedEnd: end, station: station + 1 });
+    }
+
+    return planned;
+  }
+}
+
+export default ScheduleUtils;
@@ -0,0 +1,112 @@
+export type SeriesTiebreak = 'NONE' | 'AGGREGATE' | 'AWAY_GOALS';
+
+export interface SeriesGame {
+  player1Score: number;
+  player2Score: number;
+}
+
+export interface SeriesResult {
+  player1Wins: number;
+  player2Wins: number;
+  player1Goals: number;
+  player2Goals: number;
+  winnerSide: 1 | 2 | null;
+  decidedBy: 'games' | 'aggregate' | 'away_goals' | null;
+}
+
+export class SeriesUtils {
+  static getWinsNeeded(bestOf: number): number {
+    return Math.floor(bestOf / 2) + 1;
+  }
+
+  // A series result's score is games won, so its goals come from the games
+  static getGoals(result: SeriesGame & { games?: SeriesGame[] }): SeriesGame {
+    if (!result.games || result.games.length === 0) {
+      return { player1Score: result.player1Score, player2Score: result.player2Score };
+    }
+
+    return result.games.reduce(
+      (goals, game) => ({
+        player1Score: goals.player1Score + game.player1Score,
+        player2Score: goals.player2Score + game.player2Score
+      }),
+      { player1Score: 0, player2Score: 0 }
+    );
+  }
+
+  /**
+   * Work out a series from its games, in order. Odd series (Bo3, Bo5) end as
+   * soon as one side has won a majority; even series are played in full as
+   * legs, with side 1 at home in odd-numbered games, and level series fall
+   * back to the tiebreak: aggregate goals, then (for AWAY_GOALS) goals scored
+   * away from home.
+   */
+  static getSeriesResult(games: SeriesGame[], bestOf: number, tiebreak: SeriesTiebreak = 'NONE'): SeriesResult {
+    if (games.length === 0) {
+      throw new Error('A series result needs at least one game');
+    }
+
+    if (games.length > bestOf) {
+      throw new Error(`Series is best of ${bestOf} but ${games.length} games were reported`);
+    }
+
+    const result: SeriesResult = {
+      player1Wins: 0,
+      player2Wins: 0,
+      player1Goals: 0,
+      player2Goals: 0,
+      winnerSide: null,
+      decidedBy: null
+    };
+    const winsNeeded = this.getWinsNeeded(bestOf);
+    const playsInFull = bestOf % 2 === 0;
+
+    games.forEach((game, index) => {
+      if (!playsInFull && (result.player1Wins >= winsNeeded || result.player2Wins >= winsNeeded)) {
+        throw new Error(`Game ${index + 1} was reported after the series was already decided`);
+      }
+
+      result.player1Goals += game.player1Score;
+      result.player2Goals += game.player2Score;
+
+      if (game.player1Score > game.player2Score) result.player1Wins++;
+      if (game.player2Score > game.player1Score) result.player2Wins++;
+    });
+
+    if (playsInFull && games.length < bestOf) {
+      throw new Error(`All ${bestOf} legs must be reported`);
+    }
+
+    if (result.player1Wins !== result.player2Wins &&
+        (playsInFull || Math.max(result.player1Wins, result.player2Wins) >= winsNeeded)) {
+      result.winnerSide = result.player1Wins > result.player2Wins ? 1 : 2;
+      result.decidedBy = 'games';
+      return result;
+    }
+
+    if (!playsInFull && games.length < bestOf) {
+      throw new Error('Series is not decided yet');
+    }
+
+    if (tiebreak !== 'NONE' && result.player1Goals !== result.player2Goals) {
+      result.winnerSide = result.player1Goals > result.player2Goals ? 1 : 2;
+      result.decidedBy = 'aggregate';
+      return result;
+    }
+
+    if (tiebreak === 'AWAY_GOALS') {
+      // Side 2 is away in odd-numbered games, side 1 in even-numbered ones
+      const player1Away = games.reduce((sum, g, i) => sum + (i % 2 === 1 ? g.player1Score : 0), 0);
+      const player2Away = games.reduce((sum, g, i) => sum + (i % 2 === 0 ? g.player2Score : 0), 0);
+
+      if (player1Away !== player2Away) {
+        result.winnerSide = player1Away > player2Away ? 1 : 2;
+        result.decidedBy = 'away_goals';
+      }
+    }
+
+    return result;
+  }
+}
+
+export default SeriesUtils;
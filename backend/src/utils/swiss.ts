@@ -0,0 +1,261 @@
+import { SeriesUtils, SeriesGame } from './series';
+
+export interface SwissStanding {
+  participantId: string;
+  userId: string | null;
+  teamId: string | null;
+  seed: number;
+  rank: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  buchholz: number;
+  sonnebornBerger: number;
+  hadBye: boolean;
+  opponents: string[];
+}
+
+export interface SwissPairing {
+  pairings: [SwissStanding, SwissStanding][];
+  bye?: SwissStanding;
+}
+
+interface SwissEntrant {
+  userId: string | null;
+  teamId: string | null;
+  seed: number | null;
+}
+
+interface SwissMatch {
+  status: string;
+  participants: { userId: string | null; teamId: string | null; side: number }[];
+  results: (SeriesGame & { games?: SeriesGame[] })[];
+}
+
+export const SWISS_POINTS = { win: 3, draw: 1, loss: 0 };
+
+// Pairing attempts before the rematch-free search gives up. Large fields with
+// many tied scores can otherwise take exponential time to search.
+const PAIRING_SEARCH_LIMIT = 10000;
+
+export class SwissUtils {
+  static getTotalRounds(participantCount: number): number {
+    return Math.max(1, Math.ceil(Math.log2(participantCount)));
+  }
+
+  /**
+   * Standings ordered by points, then Buchholz (opponents' points),
+   * Sonneborn-Berger (points of beaten opponents plus a third of drawn ones,
+   * matching the 3/1/0 scale), goal difference and finally seed.
+   */
+  static computeStandings(entrants: SwissEntrant[], matches: SwissMatch[]): SwissStanding[] {
+    const table = new Map<string, SwissStanding>();
+
+    entrants.forEach((entrant, index) => {
+      const participantId = (entrant.userId || entrant.teamId)!;
+      table.set(participantId, {
+        participantId,
+        userId: entrant.userId,
+        teamId: entrant.teamId,
+        seed: entrant.seed || index + 1,
+        rank: 0,
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        points: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        buchholz: 0,
+        sonnebornBerger: 0,
+        hadBye: false,
+        opponents: []
+      });
+    });
+
+    const decided: {
+      home: SwissStanding;
+      away: SwissStanding;
+      homeScore: number;
+      awayScore: number;
+      homeGoals: number;
+      awayGoals: number;
+    }[] = [];
+
+    for (const match of matches) {
+      if (match.status !== 'COMPLETED' && match.status !== 'WALKOVER') continue;
+
+      const sides = [...match.participants].sort((a, b) => a.side - b.side);
+      const home = table.get((sides[0]?.userId || sides[0]?.teamId)!);
+
+      // A bye counts as a win without goals or an opponent
+      if (sides.length === 1 && home) {
+        home.hadBye = true;
+        home.wins++;
+        home.points += SWISS_POINTS.win;
+        continue;
+      }
+
+      const away = table.get((sides[1]?.userId || sides[1]?.teamId)!);
+      const result = match.results[0];
+      if (!home || !away || !result) continue;
+
+      const goals = SeriesUtils.getGoals(result);
+
+      decided.push({
+        home,
+        away,
+        homeScore: result.player1Score,
+        awayScore: result.player2Score,
+        homeGoals: goals.player1Score,
+        awayGoals: goals.player2Score
+      });
+    }
+
+    for (const { home, away, homeScore, awayScore, homeGoals, awayGoals } of decided) {
+      this.recordGame(home, away, homeScore, awayScore, homeGoals, awayGoals);
+      this.recordGame(away, home, awayScore, homeScore, awayGoals, homeGoals);
+    }
+
+    // Tiebreaks need every final score, so they run in a second pass
+    for (const { home, away, homeScore, awayScore } of decided) {
+      home.buchholz += away.points;
+      away.buchholz += home.points;
+
+      if (homeScore > awayScore) {
+        home.sonnebornBerger += away.points;
+      } else if (awayScore > homeScore) {
+        away.sonnebornBerger += home.points;
+      } else {
+        home.sonnebornBerger += away.points / SWISS_POINTS.win;
+        away.sonnebornBerger += home.points / SWISS_POINTS.win;
+      }
+    }
+
+    const standings = [...table.values()].sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.buchholz - a.buchholz ||
+        b.sonnebornBerger - a.sonnebornBerger ||
+        b.goalDifference - a.goalDifference ||
+        a.seed - b.seed
+    );
+
+    standings.forEach((standing, index) => {
+      standing.rank = index + 1;
+    });
+
+    return standings;
+  }
+
+  /**
+   * Pair the next round from the current standings. The lowest-ranked player
+   * without a bye sits out on an odd count; everyone else is paired inside
+   * their score group (top half against bottom half), floating down to the
+   * next group only when a group can't be paired without a rematch. If no
+   * rematch-free pairing turns up within the search limit, players are paired
+   * greedily and a rematch is allowed where nobody else is left.
+   */
+  static pairRound(standings: SwissStanding[]): SwissPairing {
+    let pool = [...standings].sort((a, b) => a.rank - b.rank);
+    let bye: SwissStanding | undefined;
+
+    if (pool.length % 2 === 1) {
+      bye = [...pool].reverse().find(s => !s.hadBye) || pool[pool.length - 1];
+      pool = pool.filter(s => s !== bye);
+    }
+
+    const pairings = this.pairWithoutRematches(pool, { attempts: PAIRING_SEARCH_LIMIT })
+      || this.pairGreedily(pool);
+
+    return { pairings, bye };
+  }
+
+  private static pairWithoutRematches(
+    pool: SwissStanding[],
+    budget: { attempts: number }
+  ): [SwissStanding, SwissStanding][] | null {
+    if (pool.length === 0) return [];
+
+    const [player, ...rest] = pool;
+
+    for (const opponent of this.candidatesFor(player, rest)) {
+      if (player.opponents.includes(opponent.participantId)) continue;
+      if (--budget.attempts < 0) return null;
+
+      const remaining = this.pairWithoutRematches(rest.filter(s => s !== opponent), budget);
+      if (remaining) {
+        return [[player, opponent], ...remaining];
+      }
+    }
+
+    return null;
+  }
+
+  // Each player in rank order takes their preferred fresh opponent, or their
+  // preferred opponent outright when only rematches are left
+  private static pairGreedily(pool: SwissStanding[]): [SwissStanding, SwissStanding][] {
+    const pairings: [SwissStanding, SwissStanding][] = [];
+    let rest = pool;
+
+    while (rest.length >= 2) {
+      const [player, ...others] = rest;
+      const candidates = this.candidatesFor(player, others);
+      const opponent = candidates.find(s => !player.opponents.includes(s.participantId)) || candidates[0];
+
+      pairings.push([player, opponent]);
+      rest = others.filter(s => s !== opponent);
+    }
+
+    return pairings;
+  }
+
+  // Dutch ordering: within the player's score group the preferred opponent is
+  // the one half a group below, then the rest of the group, then lower groups
+  private static candidatesFor(player: SwissStanding, rest: SwissStanding[]): SwissStanding[] {
+    const group = rest.filter(s => s.points === player.points);
+    const lower = rest.filter(s => s.points !== player.points);
+    const mirror = Math.floor((group.length + 1) / 2) - 1;
+
+    return [
+      ...group.slice(Math.max(mirror, 0)),
+      ...group.slice(0, Math.max(mirror, 0)).reverse(),
+      ...lower
+    ];
+  }
+
+  // The score decides the result; goals differ from it only for series
+  private static recordGame(
+    standing: SwissStanding,
+    opponent: SwissStanding,
+    scored: number,
+    conceded: number,
+    goalsFor: number,
+    goalsAgainst: number
+  ): void {
+    standing.played++;
+    standing.goalsFor += goalsFor;
+    standing.goalsAgainst += goalsAgainst;
+    standing.goalDifference = standing.goalsFor - standing.goalsAgainst;
+    standing.opponents.push(opponent.participantId);
+
+    if (scored > conceded) {
+      standing.wins++;
+      standing.points += SWISS_POINTS.win;
+    } else if (scored === conceded) {
+      standing.draws++;
+      standing.points += SWISS_POINTS.draw;
+    } else {
+      standing.losses++;
+      standing.points += SWISS_POINTS.loss;
+    }
+  }
+}
+
+export default SwissUtils;
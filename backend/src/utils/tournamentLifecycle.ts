@@ -0,0 +1,29 @@
+import { TournamentStatus } from '@prisma/client';
+
+/**
+ * Allowed tournament status transitions. COMPLETED and CANCELLED are final.
+ */
+export const TOURNAMENT_TRANSITIONS: Record<TournamentStatus, TournamentStatus[]> = {
+  DRAFT: ['PUBLISHED', 'REGISTRATION_OPEN', 'CANCELLED'],
+  PUBLISHED: ['DRAFT', 'REGISTRATION_OPEN', 'CANCELLED'],
+  REGISTRATION_OPEN: ['REGISTRATION_CLOSED', 'CHECK_IN', 'CANCELLED'],
+  REGISTRATION_CLOSED: ['REGISTRATION_OPEN', 'CHECK_IN', 'LIVE', 'CANCELLED'],
+  CHECK_IN: ['LIVE', 'CANCELLED'],
+  LIVE: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+export class TournamentLifecycle {
+  static canTransition(from: TournamentStatus, to: TournamentStatus): boolean {
+    return TOURNAMENT_TRANSITIONS[from].includes(to);
+  }
+
+  static assertTransition(from: TournamentStatus, to: TournamentStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new Error(`Cannot move tournament from ${from} to ${to}`);
+    }
+  }
+}
+
+export default TournamentLifecycle;
@@ -4,6 +4,7 @@ import { AuthService } from '../services/AuthService';
 import { TournamentService } from '../services/TournamentService';
 import { NotificationService } from '../services/NotificationService';
 import { AIService } from '../services/AIService';
+import { MatchmakingService } from '../services/MatchmakingService';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -17,10 +18,11 @@ interface SocketServices {
   tournament: TournamentService;
   notification: NotificationService;
   ai: AIService;
+  matchmaking: MatchmakingService;
 }
 
 export function initializeWebSocket(io: SocketIOServer, services: SocketServices) {
-  const { prisma, auth, tournament, notification, ai } = services;
+  const { prisma, auth, tournament, notification, ai, matchmaking } = services;
 
   // Authentication middleware
   io.use(async (socket: AuthenticatedSocket, next) => {
@@ -123,7 +125,7 @@ export function initializeWebSocket(io: SocketIOServer, services: SocketServices
 
         // Check if user is participant, organizer, or admin
         const isParticipant = match.participants.some(p => p.userId === socket.userId);
-        const isOrganizer = match.tournament.organizerId === socket.userId;
+        const isOrganizer = match.tournament?.organizerId === socket.userId;
         const isAdmin = socket.role === 'ADMIN' || socket.role === 'SUPER_ADMIN';
 
         if (!isParticipant && !isOrganizer && !isAdmin) {
@@ -242,6 +244,38 @@ export function initializeWebSocket(io: SocketIOServer, services: SocketServices
       }
     });
 
+    // === MATCHMAKING EVENTS ===
+
+    // Join the ranked queue; 'match_found' is sent to the user room once paired
+    socket.on('matchmaking_join', async (data: { gameMode: string; platform: string }) => {
+      try {
+        const status = await matchmaking.joinQueue(socket.userId!, data);
+        socket.emit('matchmaking_joined', status);
+      } catch (error) {
+        socket.emit('error', {
+          message: error instanceof Error ? error.message : 'Failed to join matchmaking'
+        });
+      }
+    });
+
+    socket.on('matchmaking_leave', async () => {
+      try {
+        await matchmaking.leaveQueue(socket.userId!);
+        socket.emit('matchmaking_left');
+      } catch (error) {
+        socket.emit('error', { message: 'Failed to leave matchmaking' });
+      }
+    });
+
+    socket.on('matchmaking_status', async () => {
+      try {
+        const status = await matchmaking.getStatus(socket.userId!);
+        socket.emit('matchmaking_status', status);
+      } catch (error) {
+        socket.emit('error', { message: 'Failed to get matchmaking status' });
+      }
+    });
+
     // === CHAT EVENTS ===
 
     // Tournament chat
@@ -428,8 +462,18 @@ export function initializeWebSocket(io: SocketIOServer, services: SocketServices
 
     // === DISCONNECT HANDLING ===
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', async () => {
       console.log(`User ${socket.username} (${socket.userId}) disconnected`);
+
+      // Leave the queue once the user's last connection, on any instance, is gone
+      try {
+        const remaining = await io.in(`user:${socket.userId}`).fetchSockets();
+        if (remaining.length === 0) {
+          await matchmaking.leaveQueue(socket.userId!);
+        }
+      } catch (error) {
+        console.error(`Failed to remove ${socket.username} from matchmaking:`, error);
+      }
       
       // Broadcast user offline status to all rooms they were in
       socket.rooms.forEach(room => {
@@ -0,0 +1,100 @@
+import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import { ScaleIcon } from '@heroicons/react/24/outline'
+import { matchApi } from '../../services/api'
+import LoadingSpinner from '../ui/LoadingSpinner'
+
+interface HeadToHeadProps {
+  matchId: string
+}
+
+const DECIDED_BY: Record<string, string> = {
+  extra_time: 'AET',
+  penalties: 'pens',
+}
+
+export default function HeadToHead({ matchId }: HeadToHeadProps) {
+  const { data: record, isLoading } = useQuery({
+    queryKey: ['match-head-to-head', matchId],
+    queryFn: () => matchApi.getHeadToHead(matchId).then((res) => res.data.data),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="card p-6 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (!record) return null
+
+  const { competitor, opponent } = record
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Head to Head
+        </h3>
+        <ScaleIcon className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {record.played === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          First meeting between {competitor.name} and {opponent.name}.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">{record.wins}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">{competitor.name}</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-500 dark:text-gray-400">{record.draws}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Draws</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">{record.losses}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">{opponent.name}</div>
+            </div>
+          </div>
+
+          <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+            Goals {record.goalsFor}–{record.goalsAgainst}
+            {record.streak.length >= 2 && (
+              <> · {record.streak.holderId === competitor.id ? competitor.name : opponent.name} won the last {record.streak.length}</>
+            )}
+          </p>
+
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {record.lastMeetings.map((meeting: any) => (
+              <Link
+                key={meeting.matchId}
+                to={`/matches/${meeting.matchId}`}
+                className="flex items-center justify-between py-2 text-sm hover:text-primary-600 dark:hover:text-primary-400"
+              >
+                <span className="text-gray-600 dark:text-gray-400">
+                  {meeting.tournament?.name || 'Ranked'}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {meeting.goalsFor}–{meeting.goalsAgainst}
+                  {meeting.decidedBy && DECIDED_BY[meeting.decidedBy] && (
+                    <span className="ml-1 text-xs text-gray-500">{DECIDED_BY[meeting.decidedBy]}</span>
+                  )}
+                </span>
+              </Link>
+            ))}
+          </div>
+
+          {record.tournaments.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Met in {record.tournaments.map((t: any) => t.name).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { CalendarIcon, CheckIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+import { matchApi } from '../../services/api'
+import { useAuthStore } from '../../stores/authStore'
+import LoadingSpinner from '../ui/LoadingSpinner'
+
+interface MatchSchedulerProps {
+  matchId: string
+  isPlayer: boolean
+}
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+const formatTime = (value: string, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+    timeZoneName: 'short',
+  }).format(new Date(value))
+
+export default function MatchScheduler({ matchId, isPlayer }: MatchSchedulerProps) {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const [proposedTime, setProposedTime] = useState('')
+
+  const { data: schedule, isLoading } = useQuery({
+    queryKey: ['match-schedule', matchId],
+    queryFn: () => matchApi.getSchedule(matchId).then((res) => res.data.data),
+  })
+
+  const onSuccess = (message: string) => () => {
+    toast.success(message)
+    setProposedTime('')
+    queryClient.invalidateQueries({ queryKey: ['match-schedule', matchId] })
+    queryClient.invalidateQueries({ queryKey: ['match', matchId] })
+  }
+  const onError = (error: any) => {
+    toast.error(error.response?.data?.message || 'Scheduling failed')
+  }
+
+  // datetime-local values are in the viewer's time zone; the API takes UTC
+  const toIso = (value: string) => new Date(value).toISOString()
+
+  const proposeMutation = useMutation({
+    mutationFn: () => matchApi.proposeTime(matchId, toIso(proposedTime)),
+    onSuccess: onSuccess('Time proposed'),
+    onError,
+  })
+
+  const acceptMutation = useMutation({
+    mutationFn: (proposalId: string) => matchApi.acceptProposal(matchId, proposalId),
+    onSuccess: onSuccess('Match time agreed'),
+    onError,
+  })
+
+  const counterMutation = useMutation({
+    mutationFn: (proposalId: string) => matchApi.counterProposal(matchId, proposalId, toIso(proposedTime)),
+    onSuccess: onSuccess('Counter-proposal sent'),
+    onError,
+  })
+
+  if (isLoading || !schedule) {
+    return <LoadingSpinner size="sm" />
+  }
+
+  const opponent = schedule.participants.find((p: any) => p.userId !== user?.id)
+  const pending = schedule.proposals.find((p: any) => p.status === 'PENDING')
+  const awaitingMe = pending && pending.proposedBy !== user?.id
+  const deadlinePassed = schedule.schedulingDeadline && new Date(schedule.schedulingDeadline) <= new Date()
+
+  const renderTime = (value: string) => (
+    <>
+      <div className="font-medium text-gray-900 dark:text-white">{formatTime(value, localTimeZone)}</div>
+      {opponent?.timezone && opponent.timezone !== localTimeZone && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {formatTime(value, opponent.timezone)} for {opponent.username}
+        </div>
+      )}
+    </>
+  )
+
+  return (
+    <div className="card p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+        <CalendarIcon className="h-5 w-5 mr-2" />
+        Schedule
+      </h3>
+
+      {schedule.scheduledAt ? (
+        <div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">Kick-off</div>
+          {renderTime(schedule.scheduledAt)}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No time agreed yet.</p>
+      )}
+
+      {schedule.schedulingDeadline && !schedule.scheduledAt && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Agree a time by {formatTime(schedule.schedulingDeadline, localTimeZone)}, or the organizer's slot
+          {schedule.defaultScheduledAt && ` (${formatTime(schedule.defaultScheduledAt, localTimeZone)})`} applies.
+        </p>
+      )}
+
+      {pending && (
+        <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+            {awaitingMe ? `${pending.proposer.username} proposed` : 'You proposed'}
+          </div>
+          {renderTime(pending.proposedTime)}
+          {isPlayer && awaitingMe && (
+            <button
+              onClick={() => acceptMutation.mutate(pending.id)}
+              disabled={acceptMutation.isPending}
+              className="btn-primary mt-3 flex items-center text-sm"
+            >
+              <CheckIcon className="h-4 w-4 mr-1" />
+              Accept
+            </button>
+          )}
+        </div>
+      )}
+
+      {isPlayer && !deadlinePassed && (
+        <div className="flex space-x-2">
+          <input
+            type="datetime-local"
+            value={proposedTime}
+            onChange={(e) => setProposedTime(e.target.value)}
+            className="input flex-1"
+            aria-label="Proposed match time"
+          />
+          <button
+            onClick={() => (awaitingMe ? counterMutation.mutate(pending.id) : proposeMutation.mutate())}
+            disabled={!proposedTime || proposeMutation.isPending || counterMutation.isPending}
+            className="btn-outline flex items-center text-sm"
+          >
+            {awaitingMe && <ArrowPathIcon className="h-4 w-4 mr-1" />}
+            {awaitingMe ? 'Counter' : 'Propose'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
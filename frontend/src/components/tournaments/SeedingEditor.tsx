@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Reorder } from 'framer-motion'
+import { Bars3Icon, LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+import { tournamentApi } from '../../services/api'
+import LoadingSpinner from '../ui/LoadingSpinner'
+
+interface SeedingEditorProps {
+  tournamentId: string
+  participants: any[]
+}
+
+const byElo = (a: any, b: any) =>
+  (b.user?.currentElo || b.currentElo || 1200) - (a.user?.currentElo || a.currentElo || 1200)
+
+// Saved seeds first, then everyone else by rating
+const initialOrder = (participants: any[]) =>
+  [...participants].sort(
+    (a, b) => (a.seed || Number.MAX_SAFE_INTEGER) - (b.seed || Number.MAX_SAFE_INTEGER) || byElo(a, b)
+  )
+
+export default function SeedingEditor({ tournamentId, participants }: SeedingEditorProps) {
+  const queryClient = useQueryClient()
+  const [order, setOrder] = useState<any[]>(() => initialOrder(participants))
+  const [pinned, setPinned] = useState<Set<string>>(
+    () => new Set(participants.filter((p) => p.seedPinned).map((p) => p.id))
+  )
+
+  useEffect(() => {
+    setOrder(initialOrder(participants))
+    setPinned(new Set(participants.filter((p) => p.seedPinned).map((p) => p.id)))
+  }, [participants])
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      tournamentApi.updateSeeds(
+        tournamentId,
+        order.map((participant, index) => ({
+          participantId: participant.id,
+          seed: index + 1,
+          pinned: pinned.has(participant.id),
+        }))
+      ),
+    onSuccess: () => {
+      toast.success('Seeds saved')
+      queryClient.invalidateQueries({ queryKey: ['tournament', tournamentId] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to save seeds')
+    },
+  })
+
+  const togglePin = (participantId: string) => {
+    setPinned((current) => {
+      const next = new Set(current)
+      if (next.has(participantId)) {
+        next.delete(participantId)
+      } else {
+        next.add(participantId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-white">Seeding</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Drag to reorder. Pinned seeds are kept when brackets use hybrid seeding; the rest are filled by ELO.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setOrder([...participants].sort(byElo))}
+            className="btn-outline"
+          >
+            Reset to ELO
+          </button>
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            className="btn-primary"
+          >
+            {saveMutation.isPending ? (
+              <>
+                <LoadingSpinner size="sm" className="mr-2" />
+                Saving...
+              </>
+            ) : (
+              'Save Seeds'
+            )}
+          </button>
+        </div>
+      </div>
+
+      <Reorder.Group axis="y" values={order} onReorder={setOrder} className="space-y-2">
+        {order.map((participant, index) => (
+          <Reorder.Item
+            key={participant.id}
+            value={participant}
+            className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg cursor-grab active:cursor-grabbing"
+          >
+            <Bars3Icon className="h-5 w-5 mr-3 text-gray-400" />
+            <span className="w-8 text-sm font-semibold text-gray-500 dark:text-gray-400">
+              {index + 1}
+            </span>
+            <span className="flex-1 font-medium text-gray-900 dark:text-white">
+              {participant.user?.displayName || participant.user?.username || participant.team?.name}
+            </span>
+            <span className="mr-4 text-sm text-gray-600 dark:text-gray-400">
+              {participant.user?.currentElo || participant.currentElo}
+            </span>
+            <button
+              onClick={() => togglePin(participant.id)}
+              title={pinned.has(participant.id) ? 'Unpin seed' : 'Pin seed'}
+              className={pinned.has(participant.id) ? 'text-primary-600 dark:text-primary-400' : 'text-gray-400'}
+            >
+              {pinned.has(participant.id) ? (
+                <LockClosedIcon className="h-5 w-5" />
+              ) : (
+                <LockOpenIcon className="h-5 w-5" />
+              )}
+            </button>
+          </Reorder.Item>
+        ))}
+      </Reorder.Group>
+    </div>
+  )
+}
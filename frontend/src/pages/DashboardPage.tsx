@@ -155,7 +155,7 @@ export default function DashboardPage() {
                     <span className={`badge ${
                       tournament.status === 'REGISTRATION_OPEN' ? 'badge-success' :
                       tournament.status === 'LIVE' ? 'badge-danger' :
-                      tournament.status === 'UPCOMING' ? 'badge-warning' :
+                      tournament.status === 'CHECK_IN' ? 'badge-warning' :
                       'badge-secondary'
                     }`}>
                       {tournament.status.replace('_', ' ')}
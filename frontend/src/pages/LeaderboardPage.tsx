@@ -16,13 +16,33 @@ import { userApi } from '../services/api'
 import { useAuthStore } from '../stores/authStore'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
 
-const timeframeOptions = [
-  { value: 'all', label: 'All Time' },
-  { value: 'month', label: 'This Month' },
-  { value: 'week', label: 'This Week' },
-  { value: 'year', label: 'This Year' },
+const gameModeOptions = [
+  { value: 'ULTIMATE_TEAM', label: 'Ultimate Team' },
+  { value: 'PRO_CLUBS', label: 'Pro Clubs' },
+  { value: 'KICK_OFF', label: 'Kick Off' },
+  { value: 'CAREER_MODE', label: 'Career Mode' },
+  { value: 'VOLTA_FOOTBALL', label: 'Volta Football' },
 ]
 
+const divisionStyles: Record<string, string> = {
+  BRONZE: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  SILVER: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  GOLD: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  PLATINUM: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/30 dark:text-cyan-300',
+  DIAMOND: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  ELITE: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+}
+
+function DivisionBadge({ division }: { division?: string }) {
+  if (!division) return null
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${divisionStyles[division] || ''}`}>
+      {division.charAt(0) + division.slice(1).toLowerCase()}
+    </span>
+  )
+}
+
 const categoryOptions = [
   { value: 'rating', label: 'Rating' },
   { value: 'tournaments_won', label: 'Tournaments Won' },
@@ -32,28 +52,43 @@ const categoryOptions = [
 ]
 
 export default function LeaderboardPage() {
-  const [timeframe, setTimeframe] = useState('all')
+  const [season, setSeason] = useState('current')
+  const [gameMode, setGameMode] = useState('ULTIMATE_TEAM')
   const [category, setCategory] = useState('rating')
   const [region, setRegion] = useState('global')
   
   const { user } = useAuthStore()
 
+  const { data: seasons } = useQuery({
+    queryKey: ['leaderboard', 'seasons', gameMode],
+    queryFn: () => userApi.getLeaderboardSeasons({ gameMode }).then((res) => res.data.data),
+  })
+
   const { data: leaderboard, isLoading } = useQuery({
-    queryKey: ['leaderboard', { timeframe, category, region }],
-    queryFn: () => userApi.getLeaderboard({ timeframe, category, region, limit: 100 }),
+    queryKey: ['leaderboard', { season, gameMode, category, region }],
+    queryFn: () => userApi.getLeaderboard({ season, gameMode, category, region, limit: 100 })
+      .then((res) => res.data.data),
   })
 
   const { data: userRank } = useQuery({
-    queryKey: ['user', 'rank', { timeframe, category, region }],
+    queryKey: ['user', 'rank', { season, gameMode, category, region }],
     queryFn: () => userApi.getLeaderboard({ 
-      timeframe, 
+      season, 
+      gameMode, 
       category, 
       region, 
       userId: user?.id 
-    }),
+    }).then((res) => res.data.data),
     enabled: !!user,
   })
 
+  const pastSeasons = (seasons || []).filter((s: any) => s.status === 'ENDED')
+  const seasonLabel = season === 'all'
+    ? 'All Time'
+    : season === 'current'
+      ? 'Current Season'
+      : pastSeasons.find((s: any) => s.id === season)?.name
+
   const getRankBadge = (rank: number) => {
     if (rank === 1) return '🥇'
     if (rank === 2) return '🥈'
@@ -108,7 +143,27 @@ export default function LeaderboardPage() {
           <FunnelIcon className="w-5 h-5 text-gray-400" />
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Game Mode
+            </label>
+            <select
+              value={gameMode}
+              onChange={(e) => {
+                setGameMode(e.target.value)
+                setSeason('current')
+              }}
+              className="input w-full"
+            >
+              {gameModeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Category
@@ -128,18 +183,20 @@ export default function LeaderboardPage() {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Timeframe
+              Season
             </label>
             <select
-              value={timeframe}
-              onChange={(e) => setTimeframe(e.target.value)}
+              value={season}
+              onChange={(e) => setSeason(e.target.value)}
               className="input w-full"
             >
-              {timeframeOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
+              <option value="current">Current Season</option>
+              {pastSeasons.map((s: any) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
                 </option>
               ))}
+              <option value="all">All Time</option>
             </select>
           </div>
 
@@ -184,9 +241,10 @@ export default function LeaderboardPage() {
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                   Your Rank
                 </h3>
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {user.displayName || user.username}
-                </p>
+                <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>{user.displayName || user.username}</span>
+                  <DivisionBadge division={userRank.division} />
+                </div>
               </div>
             </div>
             
@@ -197,7 +255,7 @@ export default function LeaderboardPage() {
               <div className="text-sm text-gray-600 dark:text-gray-400">
                 {formatValue(userRank.value, category)}
               </div>
-              {userRank.change !== 0 && (
+              {!!userRank.change && (
                 <div className="flex items-center justify-end mt-1">
                   {getChangeIcon(userRank.change)}
                   <span className={`text-sm ml-1 ${
@@ -221,7 +279,7 @@ export default function LeaderboardPage() {
             </h2>
             <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
               <GlobeAltIcon className="w-4 h-4 mr-1" />
-              {categoryOptions.find(c => c.value === category)?.label} • {timeframe}
+              {categoryOptions.find(c => c.value === category)?.label} • {seasonLabel}
             </div>
           </div>
         </div>
@@ -241,8 +299,8 @@ export default function LeaderboardPage() {
               >
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
-                    <div className={`text-2xl font-bold ${getRankColor(index + 1)}`}>
-                      {getRankBadge(index + 1)}
+                    <div className={`text-2xl font-bold ${getRankColor(player.rank || index + 1)}`}>
+                      {getRankBadge(player.rank || index + 1)}
                     </div>
                     
                     <div className="w-12 h-12 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center overflow-hidden">
@@ -265,6 +323,7 @@ export default function LeaderboardPage() {
                         {player.displayName || player.username}
                       </Link>
                       <div className="flex items-center space-x-3 text-sm text-gray-500 dark:text-gray-400">
+                        <DivisionBadge division={player.division} />
                         <span>{player.country}</span>
                         {player.platform && (
                           <span className="badge-secondary text-xs">
@@ -295,7 +354,7 @@ export default function LeaderboardPage() {
                         </div>
                       )}
 
-                      {player.change !== 0 && (
+                      {!!player.change && (
                         <div className="flex items-center">
                           {getChangeIcon(player.change)}
                           <span className={`ml-1 ${
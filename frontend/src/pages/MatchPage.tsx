@@ -11,16 +11,79 @@ import {
   ExclamationTriangleIcon,
   CheckIcon,
   XMarkIcon,
-  CameraIcon
+  CameraIcon,
+  PlusIcon,
+  MinusIcon
 } from '@heroicons/react/24/outline'
 import { matchApi } from '../services/api'
 import { useAuthStore } from '../stores/authStore'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
+import MatchScheduler from '../components/matches/MatchScheduler'
+import HeadToHead from '../components/matches/HeadToHead'
+
+const WALKOVER_REASONS: Record<string, string> = {
+  FORFEIT: 'Awarded after a forfeit',
+  NO_SHOW: 'Awarded after a no-show',
+  ORGANIZER: 'Awarded by the organizer',
+}
+
+interface ScorePair {
+  playerScore: number
+  opponentScore: number
+}
+
+interface ScorePairInputProps {
+  label: string
+  value: ScorePair | null
+  onChange: (value: ScorePair | null) => void
+  initial: ScorePair
+}
+
+function ScorePairInput({ label, value, onChange, initial }: ScorePairInputProps) {
+  return (
+    <div className="grid grid-cols-3 gap-4 items-center">
+      <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? initial : null)}
+          className="mr-2"
+        />
+        {label}
+      </label>
+      {value && (
+        <>
+          <input
+            type="number"
+            min="0"
+            max="30"
+            value={value.playerScore}
+            onChange={(e) => onChange({ ...value, playerScore: parseInt(e.target.value) || 0 })}
+            className="input text-center font-bold"
+            aria-label={`Your score (${label.toLowerCase()})`}
+          />
+          <input
+            type="number"
+            min="0"
+            max="30"
+            value={value.opponentScore}
+            onChange={(e) => onChange({ ...value, opponentScore: parseInt(e.target.value) || 0 })}
+            className="input text-center font-bold"
+            aria-label={`Opponent score (${label.toLowerCase()})`}
+          />
+        </>
+      )}
+    </div>
+  )
+}
 
 export default function MatchPage() {
   const { id } = useParams<{ id: string }>()
   const [playerScore, setPlayerScore] = useState(0)
   const [opponentScore, setOpponentScore] = useState(0)
+  const [games, setGames] = useState([{ playerScore: 0, opponentScore: 0 }])
+  const [extraTime, setExtraTime] = useState<ScorePair | null>(null)
+  const [penalties, setPenalties] = useState<ScorePair | null>(null)
   const [matchTime, setMatchTime] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [chatMessage, setChatMessage] = useState('')
@@ -36,8 +99,28 @@ export default function MatchPage() {
   })
 
   const submitResultMutation = useMutation({
-    mutationFn: (data: { playerScore: number; opponentScore: number; screenshot?: File }) => 
-      matchApi.submitResult(id!, data),
+    mutationFn: (data: any) => matchApi.submitResult(id!, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['match', id] })
+    },
+  })
+
+  const confirmResultMutation = useMutation({
+    mutationFn: () => matchApi.confirmResult(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['match', id] })
+    },
+  })
+
+  const endMatchMutation = useMutation({
+    mutationFn: () => matchApi.endMatch(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['match', id] })
+    },
+  })
+
+  const forfeitMutation = useMutation({
+    mutationFn: () => matchApi.forfeitMatch(id!),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['match', id] })
     },
@@ -68,8 +151,47 @@ export default function MatchPage() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
   }
 
+  const isPlayer1 = match?.player1Id === user?.id
+  // A reported result waits for the other side to confirm it or report their own
+  const pendingReport = match?.results?.find((result: any) => result.status === 'PENDING')
+  const awaitingMyConfirmation = match?.status === 'WAITING_RESULTS' && pendingReport?.submittedBy !== user?.id
+  const canReport = match?.status === 'LIVE' || awaitingMyConfirmation
+  const bestOf = match?.bestOfSeries || 1
+  const isSeries = bestOf > 1
+  const seriesWins = games.reduce(
+    (tally, game) => ({
+      player: tally.player + (game.playerScore > game.opponentScore ? 1 : 0),
+      opponent: tally.opponent + (game.opponentScore > game.playerScore ? 1 : 0),
+    }),
+    { player: 0, opponent: 0 }
+  )
+
+  // Scores are entered from the player's point of view but reported by side
+  const toSides = (mine: number, theirs: number) =>
+    isPlayer1
+      ? { player1Score: mine, player2Score: theirs }
+      : { player1Score: theirs, player2Score: mine }
+
+  // Level results go to extra time and then a shootout
+  const canReportExtraTime = !isSeries && playerScore === opponentScore
+  const levelBeforeShootout = isSeries
+    ? seriesWins.player === seriesWins.opponent
+    : canReportExtraTime && (!extraTime || extraTime.playerScore === extraTime.opponentScore)
+
+  const updateGame = (index: number, field: 'playerScore' | 'opponentScore', value: number) => {
+    setGames((current) => current.map((game, i) => (i === index ? { ...game, [field]: value } : game)))
+  }
+
   const handleSubmitResult = () => {
-    const data: any = { playerScore, opponentScore }
+    const data: any = isSeries
+      ? { games: games.map((game) => toSides(game.playerScore, game.opponentScore)) }
+      : toSides(playerScore, opponentScore)
+    if (canReportExtraTime && extraTime) {
+      data.extraTime = toSides(extraTime.playerScore, extraTime.opponentScore)
+    }
+    if (levelBeforeShootout && penalties) {
+      data.penalties = toSides(penalties.playerScore, penalties.opponentScore)
+    }
     if (screenshotFile) {
       data.screenshot = screenshotFile
     }
@@ -142,7 +264,7 @@ export default function MatchPage() {
             <span className={`badge ${
               match.status === 'SCHEDULED' ? 'badge-warning' :
               match.status === 'LIVE' ? 'badge-success' :
-              match.status === 'COMPLETED' ? 'badge-secondary' :
+              match.status === 'COMPLETED' || match.status === 'WALKOVER' ? 'badge-secondary' :
               'badge-primary'
             }`}>
               {match.status}
@@ -186,8 +308,96 @@ export default function MatchPage() {
               </div>
             </div>
 
+            {/* Pending Confirmation */}
+            {isPlayer && match.status === 'WAITING_RESULTS' && pendingReport && (
+              <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-center">
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                  {awaitingMyConfirmation
+                    ? 'Your opponent reported this result. Confirm it, or submit the score you saw below.'
+                    : 'Waiting for your opponent to confirm your result.'}
+                </p>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white mb-3">
+                  {pendingReport.player1Score} - {pendingReport.player2Score}
+                </div>
+                {awaitingMyConfirmation && (
+                  <button
+                    onClick={() => confirmResultMutation.mutate()}
+                    disabled={confirmResultMutation.isPending}
+                    className="btn-primary"
+                  >
+                    {confirmResultMutation.isPending ? (
+                      <>
+                        <LoadingSpinner size="sm" className="mr-2" />
+                        Confirming...
+                      </>
+                    ) : (
+                      <>
+                        <CheckIcon className="h-5 w-5 mr-2" />
+                        Confirm Result
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Series Score Input */}
+            {isPlayer && canReport && isSeries && (
+              <div className="mb-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Best of {bestOf}
+                  </h3>
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                    Series: {seriesWins.player} - {seriesWins.opponent}
+                  </span>
+                </div>
+                {games.map((game, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-4 items-center">
+                    <span className="text-sm text-gray-500 dark:text-gray-400">Game {index + 1}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={game.playerScore}
+                      onChange={(e) => updateGame(index, 'playerScore', parseInt(e.target.value) || 0)}
+                      className="input text-center font-bold"
+                      aria-label={`Your score in game ${index + 1}`}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={game.opponentScore}
+                      onChange={(e) => updateGame(index, 'opponentScore', parseInt(e.target.value) || 0)}
+                      className="input text-center font-bold"
+                      aria-label={`Opponent score in game ${index + 1}`}
+                    />
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setGames([...games, { playerScore: 0, opponentScore: 0 }])}
+                    disabled={games.length >= bestOf}
+                    className="btn-outline flex items-center text-sm"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add Game
+                  </button>
+                  <button
+                    onClick={() => setGames(games.slice(0, -1))}
+                    disabled={games.length <= 1}
+                    className="btn-outline flex items-center text-sm"
+                  >
+                    <MinusIcon className="h-4 w-4 mr-1" />
+                    Remove Game
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Score Input */}
-            {isPlayer && match.status === 'LIVE' && (
+            {isPlayer && canReport && !isSeries && (
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="text-center">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -218,12 +428,39 @@ export default function MatchPage() {
               </div>
             )}
 
+            {/* Extra Time and Penalties */}
+            {isPlayer && canReport && (canReportExtraTime || levelBeforeShootout) && (
+              <div className="mb-6 space-y-3">
+                {canReportExtraTime && (
+                  <ScorePairInput
+                    label="After extra time"
+                    value={extraTime}
+                    onChange={setExtraTime}
+                    initial={{ playerScore, opponentScore }}
+                  />
+                )}
+                {levelBeforeShootout && (
+                  <ScorePairInput
+                    label="Penalty shootout"
+                    value={penalties}
+                    onChange={setPenalties}
+                    initial={{ playerScore: 0, opponentScore: 0 }}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Current Scores Display */}
-            {match.status === 'COMPLETED' && (
+            {(match.status === 'COMPLETED' || match.status === 'WALKOVER') && (
               <div className="text-center mb-6">
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                  Final Score
+                  {match.status === 'WALKOVER' ? 'Walkover' : 'Final Score'}
                 </h3>
+                {match.walkoverReason && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    {WALKOVER_REASONS[match.walkoverReason] || match.walkoverReason}
+                  </p>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                   <div className="text-center">
                     <div className="text-3xl font-bold text-gray-900 dark:text-white">
@@ -242,11 +479,30 @@ export default function MatchPage() {
                     </div>
                   </div>
                 </div>
+                {match.results?.[0]?.player1ExtraTimeScore != null && (
+                  <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                    After extra time: {match.results[0].player1ExtraTimeScore} - {match.results[0].player2ExtraTimeScore}
+                  </div>
+                )}
+                {match.results?.[0]?.player1Penalties != null && (
+                  <div className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Penalties: {match.results[0].player1Penalties} - {match.results[0].player2Penalties}
+                  </div>
+                )}
+                {match.results?.[0]?.games?.length > 1 && (
+                  <div className="mt-4 space-y-1">
+                    {match.results[0].games.map((game: any) => (
+                      <div key={game.gameNumber} className="text-sm text-gray-600 dark:text-gray-400">
+                        Game {game.gameNumber}: {game.player1Score} - {game.player2Score}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
             {/* Screenshot Upload */}
-            {isPlayer && match.status === 'LIVE' && (
+            {isPlayer && canReport && (
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Match Screenshot (Optional)
@@ -276,7 +532,7 @@ export default function MatchPage() {
             )}
 
             {/* Action Buttons */}
-            {isPlayer && match.status === 'LIVE' && (
+            {isPlayer && canReport && (
               <div className="flex space-x-4">
                 <button
                   onClick={handleSubmitResult}
@@ -305,8 +561,42 @@ export default function MatchPage() {
                 </button>
               </div>
             )}
+
+            {isPlayer && ['PENDING', 'READY', 'LIVE'].includes(match.status) && (
+              <div className="flex space-x-4 mt-4">
+                {match.status === 'LIVE' && (
+                  <button
+                    onClick={() => endMatchMutation.mutate()}
+                    disabled={endMatchMutation.isPending}
+                    className="btn-outline flex-1"
+                  >
+                    End Match
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    if (window.confirm('Forfeit this match? Your opponent will be awarded a walkover.')) {
+                      forfeitMutation.mutate()
+                    }
+                  }}
+                  disabled={forfeitMutation.isPending}
+                  className="btn-outline border-red-300 text-red-600 hover:bg-red-50 dark:border-red-600 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  <XMarkIcon className="h-5 w-5 mr-2" />
+                  Forfeit
+                </button>
+              </div>
+            )}
           </div>
 
+          {/* Scheduling */}
+          {['PENDING', 'READY'].includes(match.status) && (
+            <MatchScheduler matchId={id!} isPlayer={isPlayer} />
+          )}
+
+          {/* Head to head */}
+          <HeadToHead matchId={id!} />
+
           {/* Streaming */}
           <div className="card p-6">
             <div className="flex items-center justify-between mb-4">
@@ -17,6 +17,7 @@ import {
 import { tournamentApi } from '../services/api'
 import { useAuthStore } from '../stores/authStore'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
+import SeedingEditor from '../components/tournaments/SeedingEditor'
 
 export default function TournamentDetailPage() {
   const { id } = useParams<{ id: string }>()
@@ -73,7 +74,7 @@ export default function TournamentDetailPage() {
         return 'badge-success'
       case 'LIVE':
         return 'badge-danger'
-      case 'UPCOMING':
+      case 'CHECK_IN':
         return 'badge-warning'
       case 'COMPLETED':
         return 'badge-secondary'
@@ -86,6 +87,8 @@ export default function TournamentDetailPage() {
   const canJoin = tournament?.status === 'REGISTRATION_OPEN' && 
                   tournament.participants?.length < tournament.maxParticipants &&
                   !isParticipant
+  const canEditSeeds = tournament?.organizer?.id === user?.id &&
+                       ['REGISTRATION_OPEN', 'REGISTRATION_CLOSED', 'CHECK_IN'].includes(tournament?.status)
 
   if (isLoading) {
     return (
@@ -344,6 +347,12 @@ export default function TournamentDetailPage() {
               </h3>
             </div>
 
+            {canEditSeeds && tournament.participants?.length > 0 && (
+              <div className="mb-8">
+                <SeedingEditor tournamentId={id!} participants={tournament.participants} />
+              </div>
+            )}
+
             {participants ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {participants.map((participant: any) => (
@@ -25,7 +25,7 @@ const statusOptions = [
   { value: '', label: 'All Status' },
   { value: 'REGISTRATION_OPEN', label: 'Registration Open' },
   { value: 'LIVE', label: 'Live' },
-  { value: 'UPCOMING', label: 'Upcoming' },
+  { value: 'CHECK_IN', label: 'Check-in' },
   { value: 'COMPLETED', label: 'Completed' },
 ]
 
@@ -199,7 +199,7 @@ export default function TournamentsPage() {
                 <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
                   <CalendarIcon className="h-4 w-4 mr-1" />
                   <span>
-                    {tournament.status === 'UPCOMING' 
+                    {tournament.status === 'CHECK_IN' 
                       ? `Starts ${formatDate(tournament.startDate)}`
                       : tournament.status === 'REGISTRATION_OPEN'
                       ? `Registration closes ${formatDate(tournament.registrationEndDate)}`
@@ -216,7 +216,7 @@ export default function TournamentsPage() {
                 <span className={`badge ${
                   tournament.status === 'REGISTRATION_OPEN' ? 'badge-success' :
                   tournament.status === 'LIVE' ? 'badge-danger' :
-                  tournament.status === 'UPCOMING' ? 'badge-warning' :
+                  tournament.status === 'CHECK_IN' ? 'badge-warning' :
                   'badge-secondary'
                 }`}>
                   {tournament.status.replace('_', ' ')}
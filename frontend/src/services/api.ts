@@ -104,6 +104,9 @@ export const tournamentApi = {
   generateBrackets: (id: string, data: any) =>
     api.post(`/tournaments/${id}/brackets`, data),
 
+  updateSeeds: (id: string, seeds: { participantId: string; seed: number; pinned: boolean }[]) =>
+    api.put(`/tournaments/${id}/seeds`, { seeds }),
+
   getTournamentBracket: (id: string) => api.get(`/tournaments/${id}/bracket`),
 
   getTournamentParticipants: (id: string) => api.get(`/tournaments/${id}/participants`),
@@ -128,11 +131,35 @@ export const matchApi = {
 
   submitResult: (id: string, data: any) => api.post(`/matches/${id}/result`, data),
 
+  confirmResult: (id: string) => api.post(`/matches/${id}/result/confirm`),
+
+  getHeadToHead: (id: string) => api.get(`/matches/${id}/head-to-head`),
+
+  getSchedule: (id: string) => api.get(`/matches/${id}/schedule`),
+
+  proposeTime: (id: string, proposedTime: string) =>
+    api.post(`/matches/${id}/schedule/proposals`, { proposedTime }),
+
+  acceptProposal: (id: string, proposalId: string) =>
+    api.post(`/matches/${id}/schedule/proposals/${proposalId}/accept`),
+
+  counterProposal: (id: string, proposalId: string, proposedTime: string) =>
+    api.post(`/matches/${id}/schedule/proposals/${proposalId}/counter`, { proposedTime }),
+
   submitResultWithScreenshot: (id: string, formData: FormData) =>
     api.post(`/matches/${id}/result/screenshot`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
     }),
 
+  // Screenshot or video clip; returns the stored evidence with a signed URL
+  uploadEvidence: (id: string, file: File) => {
+    const formData = new FormData()
+    formData.append('file', file)
+    return api.post(`/matches/${id}/evidence`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+  },
+
   reportDispute: (id: string, data: any) => api.post(`/matches/${id}/dispute`, data),
 
   reportIssue: (id: string, data: any) => api.post(`/matches/${id}/issue`, data),
@@ -202,6 +229,9 @@ export const userApi = {
 
   getLeaderboard: (params?: any) => api.get('/users/leaderboard', { params }),
 
+  getLeaderboardSeasons: (params?: { gameMode?: string }) =>
+    api.get('/users/leaderboard/seasons', { params }),
+
   uploadAvatar: (file: File) => {
     const formData = new FormData()
     formData.append('avatar', file)
@@ -90,6 +90,15 @@ class WebSocketService {
       console.log('Match chat:', message)
     })
 
+    // Matchmaking events
+    this.socket.on('match_found', (data) => {
+      toast.success(`Opponent found: ${data.opponent.displayName || data.opponent.username}`)
+    })
+
+    this.socket.on('matchmaking_expired', (data) => {
+      toast(data.message)
+    })
+
     // Notifications
     this.socket.on('notification', (notification) => {
       toast(notification.title, {
@@ -194,6 +203,19 @@ class WebSocketService {
     })
   }
 
+  // Matchmaking methods
+  joinMatchmaking(gameMode: string, platform: string): void {
+    this.socket?.emit('matchmaking_join', { gameMode, platform })
+  }
+
+  leaveMatchmaking(): void {
+    this.socket?.emit('matchmaking_leave')
+  }
+
+  requestMatchmakingStatus(): void {
+    this.socket?.emit('matchmaking_status')
+  }
+
   // Streaming methods
   joinStream(streamId: string): void {
     this.socket?.emit('join_stream', { streamId })